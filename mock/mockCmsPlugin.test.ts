@@ -0,0 +1,97 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createMockCmsHandler, type MockCmsOptions } from './mockCmsPlugin';
+
+let server: Server | undefined;
+
+async function startMock(options: Partial<MockCmsOptions> = {}): Promise<string> {
+  const handler = createMockCmsHandler(options);
+  server = createServer((req, res) => {
+    void handler(req, res, () => {
+      res.statusCode = 404;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolveListen => server!.listen(0, '127.0.0.1', resolveListen));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function postJson(url: string, body: unknown): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+afterEach(async () => {
+  await new Promise(resolveClose => server?.close(resolveClose));
+  server = undefined;
+});
+
+describe('createMockCmsHandler', () => {
+  it('serves site content from the fixture', async () => {
+    const baseUrl = await startMock();
+    const response = await fetch(`${baseUrl}/api/content/site`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBeTruthy();
+    expect(await response.json()).toHaveProperty('metadata.siteName');
+  });
+
+  it('answers every request with a 500 when the error rate is 1', async () => {
+    const baseUrl = await startMock({ errorRate: 1 });
+    const response = await fetch(`${baseUrl}/api/content/site`);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ message: 'Mock CMS: injected server error' });
+  });
+
+  it('answers with a truncated JSON body when the malformed rate is 1', async () => {
+    const baseUrl = await startMock({ malformedRate: 1 });
+    const response = await fetch(`${baseUrl}/api/content/site`);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).rejects.toThrow(SyntaxError);
+  });
+
+  it('delays responses by the configured latency', async () => {
+    const baseUrl = await startMock({ latency: 100 });
+    const startedAt = performance.now();
+    await fetch(`${baseUrl}/api/content/hero`);
+
+    expect(performance.now() - startedAt).toBeGreaterThanOrEqual(90);
+  });
+
+  it('answers inquiries over the limit with a 429 and Retry-After', async () => {
+    const baseUrl = await startMock({ inquiryLimit: 1 });
+
+    expect((await postJson(`${baseUrl}/api/inquiries`, { name: 'Ada' })).status).toBe(201);
+    const refused = await postJson(`${baseUrl}/api/inquiries`, { name: 'Ada' });
+    expect(refused.status).toBe(429);
+    expect(Number(refused.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('changes the failure switches at runtime', async () => {
+    const baseUrl = await startMock();
+
+    const config = await postJson(`${baseUrl}/__mock/config`, { errorRate: 1 });
+    expect(await config.json()).toMatchObject({ errorRate: 1, latency: 0 });
+    expect((await fetch(`${baseUrl}/api/content/site`)).status).toBe(500);
+
+    await postJson(`${baseUrl}/__mock/config`, { errorRate: 0 });
+    expect((await fetch(`${baseUrl}/api/content/site`)).status).toBe(200);
+  });
+
+  it('applies scenarios by name and rejects unknown ones', async () => {
+    const baseUrl = await startMock();
+
+    const down = await postJson(`${baseUrl}/__mock/config`, { scenario: 'down' });
+    expect(await down.json()).toMatchObject({ errorRate: 1 });
+    expect((await fetch(`${baseUrl}/api/content/site`)).status).toBe(500);
+
+    const unknown = await postJson(`${baseUrl}/__mock/config`, { scenario: '../site' });
+    expect(unknown.status).toBe(400);
+  });
+});
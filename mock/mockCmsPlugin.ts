@@ -0,0 +1,437 @@
+/**
+ * Mock CMS Plugin
+ *
+ * Vite middleware that serves every endpoint the content service calls
+ * (REST adapter), so the VITE_CMS_ENABLED=true code path can be exercised
+ * without a real backend.
+ *
+ * Content is served from the SiteContent in mock/fixtures/site.json (a copy
+ * of src/content/defaultContent.ts to edit freely), read on every request.
+ * Content is translated like the app's defaults (src/content/locales.ts),
+ * into the `locale` query parameter or else the Accept-Language header.
+ *
+ * Failure switches (environment variables, or POST /__mock/config at runtime):
+ * - MOCK_CMS_SCENARIO         A preset from mock/fixtures/scenarios/<name>.json
+ *                             (slow, flaky, down, malformed, rate-limited);
+ *                             the variables below override its values
+ * - MOCK_CMS_LATENCY          Delay in ms added to every response
+ * - MOCK_CMS_ERROR_RATE       Share of requests (0-1) answered with a 500
+ * - MOCK_CMS_MALFORMED_RATE   Share of requests (0-1) answered with broken JSON
+ * - MOCK_CMS_INQUIRY_LIMIT    Inquiries accepted per minute; more get a 429
+ *
+ * The plugin serves the mock from the dev and preview servers. A build has
+ * neither, so prerendering starts it with startMockCmsServer() instead.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { fileURLToPath } from 'node:url';
+import type { Plugin } from 'vite';
+import type { InquirySubmission, SiteContent } from '../src/types/content';
+import { defaultSiteContent } from '../src/content/defaultContent';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALE_CODES, translateContent } from '../src/content/locales';
+import { matchLocale, parseAcceptLanguage } from '../src/utils/locale';
+import { paginate } from '../src/utils/pagination';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MockCmsOptions {
+  /** Delay in milliseconds added to every response */
+  latency: number;
+  /** Share of requests (0-1) answered with a 500 */
+  errorRate: number;
+  /** Share of requests (0-1) answered with a truncated JSON body */
+  malformedRate: number;
+  /** Inquiries accepted per minute before answering 429 with Retry-After; 0 for no limit */
+  inquiryLimit: number;
+}
+
+/** Preset options, as stored in mock/fixtures/scenarios */
+export interface MockCmsScenario extends Partial<MockCmsOptions> {
+  description: string;
+}
+
+type NextFunction = () => void;
+
+const FIXTURE_PATH = fileURLToPath(new URL('./fixtures/site.json', import.meta.url));
+const SCENARIOS_DIR = fileURLToPath(new URL('./fixtures/scenarios/', import.meta.url));
+
+const INQUIRY_LIMIT_WINDOW_MS = 60000;
+
+const SECTIONS = ['navigation', 'hero', 'services', 'projects', 'contact', 'footer'] as const;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function parseRate(value: unknown): number {
+  const rate = Number(value);
+  return Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 0;
+}
+
+function normalizeOptions(input: Record<string, unknown>): MockCmsOptions {
+  return {
+    latency: Math.max(Number(input.latency) || 0, 0),
+    errorRate: parseRate(input.errorRate),
+    malformedRate: parseRate(input.malformedRate),
+    inquiryLimit: Math.max(Math.floor(Number(input.inquiryLimit)) || 0, 0),
+  };
+}
+
+function loadScenario(name: string): MockCmsScenario {
+  const file = `${SCENARIOS_DIR}${name}.json`;
+  if (!/^[\w-]+$/.test(name) || !existsSync(file)) {
+    throw new Error(`Unknown mock CMS scenario "${name}"`);
+  }
+  return JSON.parse(readFileSync(file, 'utf-8')) as MockCmsScenario;
+}
+
+function listScenarios(): Record<string, string> {
+  return Object.fromEntries(
+    readdirSync(SCENARIOS_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => {
+        const name = file.slice(0, -'.json'.length);
+        return [name, loadScenario(name).description];
+      })
+  );
+}
+
+function optionsFromEnv(env: Record<string, string | undefined>): MockCmsOptions {
+  const overrides = Object.entries({
+    latency: env.MOCK_CMS_LATENCY,
+    errorRate: env.MOCK_CMS_ERROR_RATE,
+    malformedRate: env.MOCK_CMS_MALFORMED_RATE,
+    inquiryLimit: env.MOCK_CMS_INQUIRY_LIMIT,
+  }).filter(([, value]) => value !== undefined && value !== '');
+
+  const scenario = env.MOCK_CMS_SCENARIO ? loadScenario(env.MOCK_CMS_SCENARIO) : {};
+  return normalizeOptions({ ...scenario, ...Object.fromEntries(overrides) });
+}
+
+function loadContent(): SiteContent {
+  if (!existsSync(FIXTURE_PATH)) {
+    return defaultSiteContent;
+  }
+  return JSON.parse(readFileSync(FIXTURE_PATH, 'utf-8')) as SiteContent;
+}
+
+function getLocale(req: IncomingMessage, url: URL): string {
+  const requested = url.searchParams.get('locale');
+  const preferred = requested ? [requested] : parseAcceptLanguage(req.headers['accept-language']);
+  return matchLocale(preferred, SUPPORTED_LOCALE_CODES) ?? DEFAULT_LOCALE;
+}
+
+function sendJson(req: IncomingMessage, res: ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha1').update(json).digest('hex')}"`;
+
+  if (status === 200 && req.headers['if-none-match'] === etag) {
+    res.statusCode = 304;
+    res.setHeader('ETag', etag);
+    res.end();
+    return;
+  }
+
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  if (status === 200) res.setHeader('ETag', etag);
+  res.end(json);
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => { chunks.push(chunk); });
+    req.on('end', () => resolveBody(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Read an inquiry sent as JSON, or as multipart/form-data with the inquiry
+ * in an `inquiry` part (files are accepted but not stored)
+ */
+async function readInquiry(req: IncomingMessage): Promise<Partial<InquirySubmission>> {
+  const body = await readBody(req);
+  const contentType = req.headers['content-type'] ?? '';
+
+  if (!contentType.startsWith('multipart/form-data')) {
+    return JSON.parse(body.toString('utf8'));
+  }
+
+  const form = await new Request('http://mock.local', {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body,
+  }).formData();
+  const inquiry = form.get('inquiry');
+  if (inquiry === null) throw new Error('Missing inquiry part');
+
+  return JSON.parse(typeof inquiry === 'string' ? inquiry : await inquiry.text());
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolveDelay => setTimeout(resolveDelay, ms));
+}
+
+// ============================================
+// HANDLER
+// ============================================
+
+/**
+ * Create the mock CMS request handler.
+ * Exported separately so it can be mounted on a plain node:http server
+ * (see startMockCmsServer() and mockCmsPlugin.test.ts).
+ */
+export function createMockCmsHandler(initialOptions: Partial<MockCmsOptions> = {}) {
+  const options: MockCmsOptions = { latency: 0, errorRate: 0, malformedRate: 0, inquiryLimit: 0, ...initialOptions };
+  const inquiries: InquirySubmission[] = [];
+  const inquiriesByKey = new Map<string, InquirySubmission>();
+  // Times inquiries were accepted, for inquiryLimit
+  let acceptedAt: number[] = [];
+
+  async function handleApi(req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> {
+    const locale = getLocale(req, url);
+    const content = translateContent(loadContent(), locale);
+    const path = url.pathname.replace(/\/+$/, '');
+    res.setHeader('Content-Language', locale);
+    res.setHeader('Vary', 'Accept-Language');
+    const projects = [...content.projects.projects].sort((a, b) => a.order - b.order);
+
+    if (req.method === 'POST' && path === '/api/inquiries') {
+      let inquiry: Partial<InquirySubmission>;
+      try {
+        inquiry = await readInquiry(req);
+      } catch {
+        sendJson(req, res, 400, { message: 'Invalid inquiry body' });
+        return true;
+      }
+
+      // A repeated Idempotency-Key returns the inquiry created the first time
+      const idempotencyKey = req.headers['idempotency-key'];
+      const key = typeof idempotencyKey === 'string' ? idempotencyKey : undefined;
+      const existing = key ? inquiriesByKey.get(key) : undefined;
+      if (existing) {
+        sendJson(req, res, 200, existing);
+        return true;
+      }
+
+      if (options.inquiryLimit > 0) {
+        const now = Date.now();
+        acceptedAt = acceptedAt.filter(time => now - time < INQUIRY_LIMIT_WINDOW_MS);
+        if (acceptedAt.length >= options.inquiryLimit) {
+          const waitMs = acceptedAt[0] + INQUIRY_LIMIT_WINDOW_MS - now;
+          res.setHeader('Retry-After', String(Math.ceil(waitMs / 1000)));
+          sendJson(req, res, 429, { message: 'Mock CMS: too many inquiries' });
+          return true;
+        }
+        acceptedAt.push(now);
+      }
+
+      const created = {
+        ...inquiry,
+        id: randomUUID(),
+        createdAt: new Date().toISOString(),
+        status: 'new',
+      } as InquirySubmission;
+      inquiries.push(created);
+      if (key) inquiriesByKey.set(key, created);
+      sendJson(req, res, 201, created);
+      return true;
+    }
+
+    if (req.method !== 'GET') {
+      return false;
+    }
+
+    if (path === '/api/content/site') {
+      sendJson(req, res, 200, content);
+      return true;
+    }
+
+    const section = SECTIONS.find(name => path === `/api/content/${name}`);
+    if (section) {
+      sendJson(req, res, 200, content[section]);
+      return true;
+    }
+
+    if (path === '/api/services') {
+      sendJson(req, res, 200, content.services.services);
+      return true;
+    }
+
+    if (path.startsWith('/api/services/')) {
+      const id = decodeURIComponent(path.slice('/api/services/'.length));
+      const service = content.services.services.find(s => s.id === id);
+      sendJson(req, res, service ? 200 : 404, service ?? { message: 'Service not found' });
+      return true;
+    }
+
+    if (path === '/api/projects') {
+      const featured = url.searchParams.get('featured') === 'true';
+      const list = featured ? projects.filter(p => p.featured) : projects;
+
+      if (!url.searchParams.has('page')) {
+        sendJson(req, res, 200, list);
+        return true;
+      }
+
+      const page = Number(url.searchParams.get('page'));
+      const pageSize = Number(url.searchParams.get('pageSize')) || 10;
+      sendJson(req, res, 200, paginate(list, page, pageSize));
+      return true;
+    }
+
+    if (path.startsWith('/api/projects/')) {
+      const slug = decodeURIComponent(path.slice('/api/projects/'.length));
+      const project = projects.find(p => p.slug === slug);
+      sendJson(req, res, project ? 200 : 404, project ?? { message: 'Project not found' });
+      return true;
+    }
+
+    return false;
+  }
+
+  async function handleControl(req: IncomingMessage, res: ServerResponse, path: string): Promise<boolean> {
+    if (path === '/__mock/config') {
+      if (req.method === 'POST') {
+        try {
+          const { scenario, ...update } = JSON.parse((await readBody(req)).toString('utf8')) as
+            Partial<MockCmsOptions> & { scenario?: string };
+          // A scenario replaces the current options; other fields adjust them
+          const base = scenario === undefined ? options : loadScenario(scenario);
+          Object.assign(options, normalizeOptions({ ...base, ...update }));
+        } catch (error) {
+          const message = error instanceof SyntaxError ? 'Invalid JSON body' : (error as Error).message;
+          sendJson(req, res, 400, { message });
+          return true;
+        }
+      }
+      sendJson(req, res, 200, options);
+      return true;
+    }
+
+    if (path === '/__mock/scenarios') {
+      sendJson(req, res, 200, listScenarios());
+      return true;
+    }
+
+    if (path === '/__mock/inquiries') {
+      sendJson(req, res, 200, inquiries);
+      return true;
+    }
+
+    return false;
+  }
+
+  return async function mockCmsHandler(
+    req: IncomingMessage,
+    res: ServerResponse,
+    next: NextFunction
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname.startsWith('/__mock/')) {
+      if (!(await handleControl(req, res, url.pathname))) next();
+      return;
+    }
+
+    if (!url.pathname.startsWith('/api/')) {
+      next();
+      return;
+    }
+
+    // Allow the app to call the mock from another origin with credentials
+    if (req.headers.origin) {
+      res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-None-Match, Idempotency-Key');
+      res.setHeader('Access-Control-Expose-Headers', 'ETag, Retry-After');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    if (options.latency > 0) {
+      await delay(options.latency);
+    }
+
+    if (Math.random() < options.errorRate) {
+      sendJson(req, res, 500, { message: 'Mock CMS: injected server error' });
+      return;
+    }
+
+    if (Math.random() < options.malformedRate) {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.end('{"mock": "malformed body", "data": [');
+      return;
+    }
+
+    try {
+      if (!(await handleApi(req, res, url))) {
+        sendJson(req, res, 404, { message: `Mock CMS: no route for ${req.method} ${url.pathname}` });
+      }
+    } catch (error) {
+      sendJson(req, res, 500, { message: error instanceof Error ? error.message : 'Mock CMS error' });
+    }
+  };
+}
+
+// ============================================
+// PLUGIN
+// ============================================
+
+/**
+ * Serve the mock CMS from the Vite dev and preview servers
+ */
+export function mockCmsPlugin(env: Record<string, string | undefined> = process.env): Plugin {
+  const handler = createMockCmsHandler(optionsFromEnv(env));
+
+  return {
+    name: 'triji-mock-cms',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        void handler(req, res, next);
+      });
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use((req, res, next) => {
+        void handler(req, res, next);
+      });
+    },
+  };
+}
+
+/**
+ * Serve the mock CMS on the host and port of `url` outside of Vite, e.g. while
+ * prerendering. Resolves with a function that stops the server.
+ */
+export function startMockCmsServer(
+  url: string,
+  env: Record<string, string | undefined> = process.env
+): Promise<() => Promise<void>> {
+  const { hostname, port, protocol } = new URL(url);
+  const handler = createMockCmsHandler(optionsFromEnv(env));
+  const server = createServer((req, res) => {
+    void handler(req, res, () => {
+      sendJson(req, res, 404, { message: `Mock CMS: no route for ${req.method} ${req.url}` });
+    });
+  });
+
+  return new Promise((resolveServer, reject) => {
+    server.once('error', reject);
+    server.listen(Number(port) || (protocol === 'https:' ? 443 : 80), hostname, () => {
+      resolveServer(() => new Promise(resolveClose => server.close(() => resolveClose())));
+    });
+  });
+}
+
+export default mockCmsPlugin;
@@ -0,0 +1,211 @@
+/**
+ * Prerender Plugin
+ *
+ * After `vite build`, writes static HTML for the home page and every
+ * project page (dist/projects/<slug>/index.html), so visitors and crawlers
+ * get the content and meta tags before the app loads. src/main.tsx then
+ * hydrates the page with the content it was rendered with.
+ *
+ * Pages are rendered by src/entry-server.ts, loaded through Vite's SSR
+ * module loader with the build's mode and environment. With
+ * VITE_CMS_ENABLED=true the CMS must be reachable from the build; if it
+ * isn't, pages are rendered with the default content and a warning.
+ * With VITE_CMS_MOCK=true there is no dev server to serve the mock CMS, so
+ * it is started at VITE_CMS_API_URL for as long as the pages render.
+ * Invalid structured data (JSON-LD) nodes are left out of their page, with
+ * a warning.
+ *
+ * Set PRERENDER=false to build a client-only app.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createServer, type Plugin, type ResolvedConfig } from 'vite';
+import { startMockCmsServer } from '../mock/mockCmsPlugin';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Shapes returned by src/entry-server.ts, which is type-checked with the app
+
+interface PrerenderedPage {
+  path: string;
+  html: string;
+  head: string;
+  data: string;
+  lang: string;
+  dir: string;
+  structuredDataIssues: Array<{ path: string; message: string }>;
+}
+
+interface ServerEntry {
+  prerender: () => Promise<{
+    pages: PrerenderedPage[];
+    status: 'ok' | 'fallback' | 'error';
+    error?: string;
+  }>;
+}
+
+export interface PrerenderOptions {
+  /** Serve the mock CMS while rendering, configured from these variables */
+  mockCmsEnv?: Record<string, string | undefined>;
+}
+
+const SERVER_ENTRY = '/src/entry-server.ts';
+
+// ============================================
+// HTML
+// ============================================
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Fill the built index.html with a rendered page
+ */
+function renderHtml(template: string, page: PrerenderedPage): string {
+  let html = template.replace(
+    /<html[^>]*>/,
+    () => `<html lang="${escapeAttribute(page.lang)}" dir="${escapeAttribute(page.dir)}">`
+  );
+
+  if (page.head) {
+    // The page's head replaces the placeholder title and description
+    html = html
+      .replace(/\s*<title>[\s\S]*?<\/title>/, '')
+      .replace(/\s*<meta name="description"[^>]*>/, '')
+      .replace('</head>', () => `  ${page.head}\n  </head>`);
+  }
+
+  return html
+    .replace('<div id="root"></div>', () => `<div id="root">${page.html}</div>`)
+    .replace('</body>', () => `  ${page.data}\n  </body>`);
+}
+
+/**
+ * File to write a page to, or null if its path is outside the base URL
+ * or would leave the output directory
+ */
+function getOutputFile(outDir: string, base: string, pagePath: string): string | null {
+  if (!pagePath.startsWith(base)) return null;
+
+  let relative: string;
+  try {
+    relative = decodeURIComponent(pagePath.slice(base.length));
+  } catch {
+    return null;
+  }
+
+  const file = path.resolve(outDir, relative, 'index.html');
+  const fromOutDir = path.relative(outDir, file);
+  return fromOutDir.startsWith('..') || path.isAbsolute(fromOutDir) ? null : file;
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+/**
+ * Render every page with the app's server entry and write it to the output
+ */
+async function renderPages(config: ResolvedConfig, outDir: string, template: string): Promise<void> {
+  const server = await createServer({
+    configFile: config.configFile,
+    root: config.root,
+    mode: config.mode,
+    base: config.base,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false, watch: null },
+  });
+
+  try {
+    const entry = await server.ssrLoadModule(SERVER_ENTRY) as ServerEntry;
+    const result = await entry.prerender();
+
+    if (result.status === 'error') {
+      config.logger.warn(`Prerendering with default content, the CMS request failed: ${result.error}`);
+    }
+
+    let written = 0;
+    for (const page of result.pages) {
+      const file = getOutputFile(outDir, config.base, page.path);
+      if (!file) {
+        config.logger.warn(`Not prerendering ${page.path}: outside the output directory`);
+        continue;
+      }
+
+      page.structuredDataIssues.forEach(issue => {
+        config.logger.warn(`Invalid structured data node left out of ${page.path}: ${issue.path}: ${issue.message}`);
+      });
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, renderHtml(template, page));
+      written++;
+    }
+
+    config.logger.info(`Prerendered ${written} pages`);
+  } finally {
+    await server.close();
+  }
+}
+
+// ============================================
+// MOCK CMS
+// ============================================
+
+/**
+ * Start the mock CMS at VITE_CMS_API_URL. Resolves with a function that
+ * stops it, or null if it couldn't be started.
+ */
+async function startMockCms(
+  env: Record<string, string | undefined>,
+  config: ResolvedConfig
+): Promise<(() => Promise<void>) | null> {
+  if (!env.VITE_CMS_API_URL) {
+    config.logger.warn('Not starting the mock CMS for prerendering: VITE_CMS_API_URL is not set');
+    return null;
+  }
+
+  try {
+    return await startMockCmsServer(env.VITE_CMS_API_URL, env);
+  } catch (error) {
+    // e.g. a dev server with the mock already listens on the port
+    config.logger.warn(`Not starting the mock CMS for prerendering: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+// ============================================
+// PLUGIN
+// ============================================
+
+export function prerenderPlugin(options: PrerenderOptions = {}): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'triji-prerender',
+    apply: 'build',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    async closeBundle() {
+      if (config.build.ssr) return;
+
+      const outDir = path.resolve(config.root, config.build.outDir);
+      const template = await readFile(path.join(outDir, 'index.html'), 'utf-8');
+
+      const stopMockCms = options.mockCmsEnv ? await startMockCms(options.mockCmsEnv, config) : null;
+
+      try {
+        await renderPages(config, outDir, template);
+      } finally {
+        await stopMockCms?.();
+      }
+    },
+  };
+}
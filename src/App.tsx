@@ -4,25 +4,73 @@
  * This component uses the ContentProvider to provide CMS content
  * to all child components. Content is fetched from the content service
  * which can be configured to use a CMS API.
+ *
+ * Pages are selected by the client-side router (utils/router.ts):
+ * the home page sections, or a project detail page at /projects/:slug.
+ * Each page keeps the document head (title, meta tags) up to date.
  */
 
 import './App.css'
 import { ContentProvider, useContentContext } from './context/ContentContext'
 import { Navbar, Hero, Services, Projects, Contact, Footer } from './components/sections'
+import { ProjectDetail, NotFound } from './components/pages'
 import { ErrorBoundary } from './components/ErrorBoundary'
+import { useRoute, useScrollOnNavigate } from './hooks/useRoute'
+import { useDocumentHead } from './hooks/useDocumentHead'
+import { useInquiryQueue } from './hooks/useInquiryQueue'
+import { defaultSiteLabels } from './content/defaultContent'
+import type { LocaleCode, SiteContent } from './types/content'
+
+/**
+ * Page for the current route, between the shared navbar and footer
+ */
+function Page({ content, locale }: { content: SiteContent; locale: LocaleCode }) {
+  const route = useRoute();
+  const labels = { ...defaultSiteLabels, ...content.labels };
+  useScrollOnNavigate();
+  // Project pages set their own head
+  useDocumentHead(
+    route.name === 'not-found' ? { title: labels.notFoundTitle, noIndex: true } : {},
+    { enabled: route.name !== 'project' }
+  );
+
+  switch (route.name) {
+    case 'project':
+      // Keyed so gallery state resets between projects
+      return (
+        <ProjectDetail key={route.slug} slug={route.slug} content={content.projects} locale={locale} />
+      );
+    case 'not-found':
+      return (
+        <NotFound title={labels.notFoundTitle} message={labels.notFoundMessage} backLabel={labels.backToHome} />
+      );
+    default:
+      return (
+        <>
+          <Hero content={content.hero} />
+          <Services content={content.services} />
+          <Projects content={content.projects} locale={locale} />
+          <Contact content={content.contact} />
+        </>
+      );
+  }
+}
 
 /**
  * Main content component that consumes the content context
  */
 function AppContent() {
-  const { content, loading, error } = useContentContext();
+  const { content, loading, error, locale, locales, setLocale } = useContentContext();
+
+  // Resend inquiries queued while offline, whichever page is open
+  useInquiryQueue();
 
   // Optional: Show loading state
   if (loading) {
     return (
       <div className="app-loading">
         <div className="loading-spinner"></div>
-        <p>Loading...</p>
+        <p>{content.labels?.loading ?? defaultSiteLabels.loading}</p>
       </div>
     );
   }
@@ -34,23 +82,36 @@ function AppContent() {
 
   return (
     <div className="app">
-      <Navbar content={content.navigation} />
-      <Hero content={content.hero} />
-      <Services content={content.services} />
-      <Projects content={content.projects} />
-      <Contact content={content.contact} />
+      <Navbar
+        content={content.navigation}
+        locale={locale}
+        locales={locales}
+        onLocaleChange={setLocale}
+      />
+      <Page content={content} locale={locale} />
       <Footer content={content.footer} />
     </div>
   );
 }
 
+interface AppProps {
+  /** Content the page was prerendered with (see entry-server.ts) */
+  initialContent?: SiteContent;
+  initialLocale?: LocaleCode;
+  prerendered?: boolean;
+}
+
 /**
  * App wrapper with ErrorBoundary and ContentProvider
  */
-function App() {
+function App({ initialContent, initialLocale, prerendered }: AppProps) {
   return (
     <ErrorBoundary>
-      <ContentProvider>
+      <ContentProvider
+        initialContent={initialContent}
+        initialLocale={initialLocale}
+        prerendered={prerendered}
+      >
         <AppContent />
       </ContentProvider>
     </ErrorBoundary>
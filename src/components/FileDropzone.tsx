@@ -0,0 +1,123 @@
+/**
+ * File Dropzone Component
+ *
+ * File input for `file` form fields: files can be dropped on the zone or
+ * chosen with the (visually hidden, still focusable) native input. Chosen
+ * files are listed with their size and can be removed before submitting.
+ */
+
+import React, { useState } from 'react';
+import type { ContactLabels, FormField } from '../types/content';
+import { DEFAULT_MAX_FILES, formatFileSize } from '../utils/validation';
+import { formatText } from '../utils/text';
+
+interface FileDropzoneProps {
+  field: FormField;
+  files: File[];
+  labels: Pick<ContactLabels, 'dropFiles' | 'removeFile'>;
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+  /** id of the element describing the field's error */
+  describedBy?: string;
+}
+
+function isSameFile(a: File, b: File): boolean {
+  return a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+}
+
+export const FileDropzone: React.FC<FileDropzoneProps> = ({
+  field,
+  files,
+  labels,
+  onChange,
+  disabled = false,
+  invalid = false,
+  describedBy,
+}) => {
+  const [dragging, setDragging] = useState(false);
+  const maxFiles = field.validation?.maxFiles ?? DEFAULT_MAX_FILES;
+  const multiple = maxFiles > 1;
+
+  const addFiles = (added: File[]) => {
+    if (added.length === 0) return;
+
+    // A single-file field replaces its file; others collect files, and
+    // too many files are reported by validation rather than dropped
+    const next = multiple
+      ? [...files, ...added.filter(file => !files.some(existing => isSameFile(existing, file)))]
+      : added.slice(0, 1);
+    onChange(next);
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    // Allow choosing the same file again after removing it
+    event.target.value = '';
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    event.preventDefault();
+    if (!disabled) setDragging(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    if (!disabled) addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const removeFile = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="file-dropzone-wrapper">
+      <label
+        htmlFor={field.name}
+        className={`file-dropzone ${dragging ? 'dragging' : ''} ${disabled ? 'disabled' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <input
+          type="file"
+          id={field.name}
+          name={field.name}
+          className="file-dropzone-input"
+          onChange={handleInputChange}
+          multiple={multiple}
+          accept={field.validation?.accept?.join(',')}
+          disabled={disabled}
+          aria-invalid={invalid || undefined}
+          aria-describedby={describedBy}
+        />
+        <span className="file-dropzone-text">
+          {field.placeholder || labels.dropFiles}
+        </span>
+      </label>
+
+      {files.length > 0 && (
+        <ul className="file-list">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${file.size}-${file.lastModified}`} className="file-list-item">
+              <span className="file-name">{file.name}</span>
+              <span className="file-size">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                className="file-remove"
+                onClick={() => removeFile(index)}
+                disabled={disabled}
+                aria-label={formatText(labels.removeFile, { name: file.name })}
+              >
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FileDropzone;
@@ -0,0 +1,49 @@
+/**
+ * Link Component
+ *
+ * Anchor that navigates between pages without reloading (see utils/router.ts).
+ * Section anchors like "#projects" point at the home page, so content hrefs
+ * work from every page. External links, new-tab clicks and anchors on the
+ * current page keep the browser's default behavior.
+ */
+
+import React from 'react';
+import { navigate, resolveHref } from '../utils/router';
+
+interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: string;
+}
+
+function isModifiedClick(event: React.MouseEvent): boolean {
+  return event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey;
+}
+
+export const Link: React.FC<LinkProps> = ({ to, onClick, target, children, ...rest }) => {
+  const href = resolveHref(to);
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented || isModifiedClick(event) || (target && target !== '_self')) {
+      return;
+    }
+
+    const url = new URL(href, window.location.href);
+    if (url.origin !== window.location.origin) return;
+
+    // Same page: let the browser scroll to the anchor
+    if (url.pathname === window.location.pathname && url.search === window.location.search && url.hash) {
+      return;
+    }
+
+    event.preventDefault();
+    navigate(`${url.pathname}${url.search}${url.hash}`);
+  };
+
+  return (
+    <a href={href} target={target} onClick={handleClick} {...rest}>
+      {children}
+    </a>
+  );
+};
+
+export default Link;
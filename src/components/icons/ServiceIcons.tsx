@@ -8,6 +8,7 @@
 import React from 'react';
 import type { ServiceIconType } from '../../types/content';
 import { sanitizeSvg } from '../../utils/sanitize';
+import { useHydrated } from '../../hooks/useHydrated';
 
 interface IconProps {
   size?: number;
@@ -203,8 +204,12 @@ export const ServiceIcon: React.FC<ServiceIconProps> = ({
   size = 32, 
   className 
 }) => {
+  // Custom SVG needs the DOM to be sanitized, so prerendered pages leave it
+  // out and add it once hydrated
+  const inBrowser = useHydrated();
+
   // If custom SVG is provided, sanitize and render it
-  if (iconType === 'custom' && customSvg) {
+  if (iconType === 'custom' && customSvg && inBrowser) {
     const sanitizedSvg = sanitizeSvg(customSvg);
     return (
       <div 
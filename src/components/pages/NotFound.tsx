@@ -0,0 +1,40 @@
+/**
+ * Not Found Page Component
+ *
+ * Shown for unknown paths and project slugs.
+ */
+
+import React from 'react';
+import { Link } from '../Link';
+import { homePath } from '../../utils/router';
+import { defaultSiteLabels } from '../../content/defaultContent';
+
+interface NotFoundProps {
+  title?: string;
+  message?: string;
+  /** Where the back link points, defaults to the home page */
+  backTo?: string;
+  backLabel?: string;
+}
+
+export const NotFound: React.FC<NotFoundProps> = ({
+  title = defaultSiteLabels.notFoundTitle,
+  message = defaultSiteLabels.notFoundMessage,
+  backTo = homePath(),
+  backLabel = defaultSiteLabels.backToHome,
+}) => {
+  return (
+    <section className="section page-section not-found">
+      <div className="container not-found-content">
+        <span className="not-found-code">404</span>
+        <h1 className="section-title">{title}</h1>
+        <p className="section-subtitle">{message}</p>
+        <Link to={backTo} className="btn btn-primary">
+          {backLabel}
+        </Link>
+      </div>
+    </section>
+  );
+};
+
+export default NotFound;
@@ -0,0 +1,199 @@
+/**
+ * Project Detail Page Component
+ *
+ * Full page for a single project at /projects/:slug, with CMS-driven
+ * content support. Renders the project from the projects section while
+ * the full entry loads, and a 404 state for unknown slugs. The document
+ * head describes the project, for link previews and search engines.
+ */
+
+import React, { useState } from 'react';
+import type { LocaleCode, Project, ProjectImage, ProjectsContent } from '../../types/content';
+import { defaultProjectsLabels } from '../../content/defaultContent';
+import { useProject } from '../../hooks/useContent';
+import { useDocumentHead } from '../../hooks/useDocumentHead';
+import { homePath } from '../../utils/router';
+import { formatText } from '../../utils/text';
+import { Link } from '../Link';
+import { NotFound } from './NotFound';
+
+interface ProjectDetailProps {
+  slug: string;
+  content: ProjectsContent;
+  locale?: LocaleCode;
+}
+
+function formatDate(value: string, locale?: LocaleCode): string | null {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+
+  return date.toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function getImages(project: Project): ProjectImage[] {
+  const images = [project.image, ...(project.gallery ?? [])].filter(
+    (image): image is ProjectImage => Boolean(image?.url)
+  );
+  return images.filter((image, index) => images.findIndex(other => other.url === image.url) === index);
+}
+
+const BackLink: React.FC<{ label: string }> = ({ label }) => (
+  <Link to={homePath('projects')} className="project-back-link">
+    &larr; {label}
+  </Link>
+);
+
+export const ProjectDetail: React.FC<ProjectDetailProps> = ({ slug, content, locale }) => {
+  const { data, loading, status, refetch } = useProject(slug, { locale });
+  const [selectedImage, setSelectedImage] = useState(0);
+  const labels = { ...defaultProjectsLabels, ...content.labels };
+
+  // The projects section usually has the project already; show it while loading
+  const listed = content.projects.find(p => p.slug === slug);
+  const project = data ?? (loading || status === 'error' ? listed : undefined);
+
+  useDocumentHead(
+    project
+      ? {
+          title: project.title,
+          description: project.shortDescription || project.description,
+          image: project.image?.url,
+          type: 'article',
+          project,
+        }
+      : loading || status === 'error' ? {} : { title: labels.notFoundTitle, noIndex: true }
+  );
+
+  if (!project) {
+    if (loading) {
+      return (
+        <div className="app-loading">
+          <div className="loading-spinner"></div>
+          <p>{labels.loadingProject}</p>
+        </div>
+      );
+    }
+
+    if (status === 'error') {
+      return (
+        <section className="section page-section">
+          <div className="container project-detail">
+            <BackLink label={labels.backToProjects} />
+            <div className="form-error">
+              {labels.projectError}
+            </div>
+            <button type="button" className="btn btn-primary" onClick={() => refetch()}>
+              {labels.tryAgain}
+            </button>
+          </div>
+        </section>
+      );
+    }
+
+    return (
+      <NotFound
+        title={labels.notFoundTitle}
+        message={labels.notFoundMessage}
+        backTo={homePath('projects')}
+        backLabel={labels.backToProjects}
+      />
+    );
+  }
+
+  const images = getImages(project);
+  const mainImage = images[Math.min(selectedImage, images.length - 1)];
+  const publishedAt = project.publishedAt ? formatDate(project.publishedAt, locale) : null;
+
+  return (
+    <article className="section page-section">
+      <div className="container project-detail">
+        <BackLink label={labels.backToProjects} />
+
+        <header className="project-detail-header">
+          <span className="project-category">{project.category}</span>
+          <h1 className="project-detail-title">{project.title}</h1>
+          {publishedAt && (
+            <time className="project-detail-date" dateTime={project.publishedAt}>
+              {formatText(labels.published, { date: publishedAt })}
+            </time>
+          )}
+        </header>
+
+        <div className="project-gallery">
+          <div className="project-gallery-main">
+            {mainImage ? (
+              <img
+                src={mainImage.url}
+                alt={mainImage.alt || project.title}
+                width={mainImage.width}
+                height={mainImage.height}
+              />
+            ) : (
+              <div className="project-placeholder">
+                <span>{content.placeholderText || 'Coming Soon'}</span>
+              </div>
+            )}
+          </div>
+          {images.length > 1 && (
+            <div className="project-gallery-thumbs">
+              {images.map((image, index) => (
+                <button
+                  key={image.url}
+                  type="button"
+                  className={`project-gallery-thumb ${image === mainImage ? 'active' : ''}`}
+                  onClick={() => setSelectedImage(index)}
+                  aria-label={formatText(labels.showImage, { index: index + 1, total: images.length })}
+                  aria-pressed={image === mainImage}
+                >
+                  <img src={image.url} alt="" loading="lazy" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="project-detail-body">
+          <p className="project-detail-description">{project.description}</p>
+
+          {project.technologies && project.technologies.length > 0 && (
+            <div className="project-detail-section">
+              <h2 className="project-detail-subtitle">{labels.technologies}</h2>
+              <div className="project-technologies">
+                {project.technologies.map((tech, index) => (
+                  <span key={index} className="tech-tag">{tech}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(project.liveUrl || project.githubUrl) && (
+            <div className="project-detail-actions">
+              {project.liveUrl && (
+                <a
+                  href={project.liveUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn btn-primary"
+                >
+                  {labels.viewLive}
+                </a>
+              )}
+              {project.githubUrl && (
+                <a
+                  href={project.githubUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn btn-secondary"
+                >
+                  GitHub
+                </a>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </article>
+  );
+};
+
+export default ProjectDetail;
@@ -0,0 +1,8 @@
+/**
+ * Page Components Index
+ *
+ * Export all page components (routes other than the home page sections).
+ */
+
+export { ProjectDetail } from './ProjectDetail';
+export { NotFound } from './NotFound';
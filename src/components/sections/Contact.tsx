@@ -3,26 +3,209 @@
  * 
  * Contact form section with CMS-driven content support.
  * Includes input sanitization, validation, and rate limiting.
+ * Fields are validated on blur and on submit, with errors shown next to
+ * each input; submission results are announced through a live region.
+ * Unsent values are kept as a draft that can be restored after a reload.
+ * File fields accept dropped or chosen files, uploaded with the inquiry.
+ * With content.steps the form is a wizard: each step is validated before
+ * moving on, and a review step comes before submitting.
+ * Inquiries that can't be sent (e.g. offline) are queued and resent
+ * automatically; their status is shown above the form.
+ * A honeypot field and a minimum fill time filter out simple bots.
  */
 
-import { useState, type FormEvent } from 'react';
-import type { ContactContent, FormField } from '../../types/content';
+import React, { useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import type {
+  ContactContent,
+  ContactLabels,
+  FormField,
+  InquiryFields,
+  InquiryFiles,
+} from '../../types/content';
+import { defaultContactLabels } from '../../content/defaultContent';
 import { useInquirySubmit } from '../../hooks/useContent';
 import { useRateLimit } from '../../hooks/useRateLimit';
+import { useFormDraft } from '../../hooks/useFormDraft';
+import { useInquiryQueue } from '../../hooks/useInquiryQueue';
+import { useSpamProtection } from '../../hooks/useSpamProtection';
 import { ArrowRightIcon } from '../icons/ServiceIcons';
+import { FileDropzone } from '../FileDropzone';
 import { sanitizeInquiry } from '../../utils/sanitize';
-import { validateInquiry } from '../../utils/validation';
+import { formatText } from '../../utils/text';
+import {
+  validateField,
+  validateFiles,
+  validateInquiry,
+  type FieldErrors,
+} from '../../utils/validation';
 
 interface ContactProps {
   content: ContactContent;
 }
 
+interface WizardStep {
+  id: string;
+  title: string;
+  description?: string;
+  fields: FormField[];
+}
+
+interface StepProgressProps {
+  titles: string[];
+  current: number;
+  labels: ContactLabels;
+}
+
+interface ReviewStepProps {
+  steps: WizardStep[];
+  values: InquiryFields;
+  files: InquiryFiles;
+  disabled: boolean;
+  labels: ContactLabels;
+  onEdit: (stepIndex: number) => void;
+}
+
+// Submissions sooner than this after the form is shown are treated as bots
+const MIN_FILL_TIME_MS = 3000;
+
+// How long the notice for a sent queued inquiry stays up
+const QUEUE_SENT_NOTICE_MS = 10000;
+
+// Drafts older than this are discarded instead of offered
+const DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Focus target for the current step's heading
+const STEP_HEADING = '#step-heading';
+
+/**
+ * Countdown text, e.g. "45 seconds" or "4:05 minutes"
+ */
+function formatCountdown(seconds: number, labels: ContactLabels): string {
+  if (seconds < 60) return formatText(seconds === 1 ? labels.second : labels.seconds, { count: seconds });
+  return formatText(labels.minutes, {
+    time: `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`,
+  });
+}
+
+function errorId(field: FormField): string {
+  return `${field.name}-error`;
+}
+
+/**
+ * Wizard steps with their fields, in step order. Unknown field names are
+ * skipped; fields not placed in any step go on the last step.
+ */
+function getWizardSteps(content: ContactContent): WizardStep[] {
+  if (!content.steps || content.steps.length === 0) return [];
+
+  const placed = new Set<string>();
+  const steps: WizardStep[] = content.steps.map(step => ({
+    id: step.id,
+    title: step.title,
+    description: step.description,
+    fields: step.fields.flatMap(name => {
+      const field = content.formFields.find(f => f.name === name);
+      if (!field || placed.has(name)) return [];
+
+      placed.add(name);
+      return [field];
+    }),
+  }));
+
+  steps[steps.length - 1].fields.push(...content.formFields.filter(f => !placed.has(f.name)));
+  return steps.filter(step => step.fields.length > 0);
+}
+
+const StepProgress: React.FC<StepProgressProps> = ({ titles, current, labels }) => (
+  <ol className="form-steps" aria-label={labels.progress}>
+    {titles.map((title, index) => (
+      <li
+        key={index}
+        className={`form-step-indicator ${index === current ? 'active' : ''} ${index < current ? 'complete' : ''}`}
+        aria-current={index === current ? 'step' : undefined}
+      >
+        <span className="form-step-number">{index + 1}</span>
+        <span className="form-step-label">{title}</span>
+      </li>
+    ))}
+  </ol>
+);
+
+const ReviewStep: React.FC<ReviewStepProps> = ({ steps, values, files, disabled, labels, onEdit }) => (
+  <div className="form-review">
+    {steps.map((step, index) => (
+      <div key={step.id} className="form-review-step">
+        <div className="form-review-header">
+          <h4>{step.title}</h4>
+          <button
+            type="button"
+            className="form-review-edit"
+            onClick={() => onEdit(index)}
+            disabled={disabled}
+            aria-label={formatText(labels.editStep, { step: step.title })}
+          >
+            {labels.edit}
+          </button>
+        </div>
+        <dl>
+          {step.fields.map(field => {
+            const value = field.type === 'file'
+              ? (files[field.name] ?? []).map(file => file.name).join(', ')
+              : values[field.name]?.trim();
+
+            return (
+              <div key={field.id} className="form-review-item">
+                <dt>{field.label}</dt>
+                <dd className={value ? '' : 'empty'}>{value || labels.notProvided}</dd>
+              </div>
+            );
+          })}
+        </dl>
+      </div>
+    ))}
+  </div>
+);
+
 export const Contact: React.FC<ContactProps> = ({ content }) => {
-  const { submit, loading, error, success, reset } = useInquirySubmit();
-  const { canSubmit, recordSubmit, timeRemaining, isRateLimited } = useRateLimit({
+  const labels = { ...defaultContactLabels, ...content.labels };
+  const messages = content.validationMessages;
+  // Tabs open at the same time share submissions, so they share the limit
+  const { canSubmit, recordSubmit, blockFor, secondsRemaining, isRateLimited } = useRateLimit({
     limitMs: 60000, // 1 minute between submissions
     storageKey: 'triji_inquiry_rate_limit',
+    syncTabs: true,
   });
+  const { submit, loading, uploadProgress, error, success, queued, reset } = useInquirySubmit({
+    onRetryAfter: blockFor,
+  });
+  const queue = useInquiryQueue();
+  const spamProtection = useSpamProtection({ minFillTimeMs: MIN_FILL_TIME_MS });
+  const formRef = useRef<HTMLFormElement>(null);
+
+  // Note when queued inquiries have all been sent
+  const waiting = queue.entries.filter(entry => entry.status !== 'failed').length;
+  const [queueState, setQueueState] = useState({ waiting, sent: false });
+  if (queueState.waiting !== waiting) {
+    setQueueState({ waiting, sent: queueState.waiting > 0 && waiting === 0 });
+  }
+  const failedEntries = queue.entries.filter(entry => entry.status === 'failed');
+  const dismissQueueSent = () => setQueueState(state => (state.sent ? { ...state, sent: false } : state));
+
+  useEffect(() => {
+    if (!queueState.sent) return;
+    const timer = setTimeout(dismissQueueSent, QUEUE_SENT_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [queueState.sent]);
+  const stepHeadingRef = useRef<HTMLHeadingElement>(null);
+  // Element to focus once the next render is committed (after a step change)
+  const pendingFocusRef = useRef<string | null>(null);
+
+  const steps = useMemo(() => getWizardSteps(content), [content]);
+  const wizard = steps.length > 0;
+  const [stepIndex, setStepIndex] = useState(0);
+  // The step after the last one is the review step
+  const currentStep = Math.min(stepIndex, steps.length);
+  const reviewing = wizard && currentStep === steps.length;
   
   // Initialize form data based on form fields from CMS
   const initialFormData = content.formFields.reduce((acc, field) => {
@@ -31,62 +214,193 @@ export const Contact: React.FC<ContactProps> = ({ content }) => {
   }, {} as Record<string, string>);
   
   const [formData, setFormData] = useState(initialFormData);
-  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  // Files can't be kept in drafts, so they live apart from formData
+  const [files, setFiles] = useState<InquiryFiles>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formNotice, setFormNotice] = useState<string | null>(null);
+  // Set when a bot filled the honeypot: show success, but nothing was sent
+  const [dropped, setDropped] = useState(false);
+  const { savedDraft, restoreDraft, discardDraft, clearDraft } = useFormDraft(
+    'contact',
+    content.formFields,
+    formData,
+    { maxAgeMs: DRAFT_MAX_AGE_MS }
+  );
 
-  const handleChange = (name: string, value: string) => {
-    setFormData(prev => ({ ...prev, [name]: value }));
+  const handleRestoreDraft = () => {
+    setFormData(prev => ({ ...prev, ...restoreDraft() }));
+    setFieldErrors({});
+  };
+
+  const setFieldError = (name: string, message: string | null) => {
+    setFieldErrors(prev => {
+      if ((prev[name] ?? null) === message) return prev;
+
+      const next = { ...prev };
+      if (message) {
+        next[name] = message;
+      } else {
+        delete next[name];
+      }
+      return next;
+    });
+  };
+
+  const handleChange = (field: FormField, value: string) => {
+    setFormData(prev => ({ ...prev, [field.name]: value }));
     if (error) reset();
-    if (validationErrors.length > 0) setValidationErrors([]);
+    if (formNotice) setFormNotice(null);
+    if (dropped) setDropped(false);
+    dismissQueueSent();
+
+    // Once a field shows an error, re-check it as the user fixes it
+    if (fieldErrors[field.name]) {
+      setFieldError(field.name, validateField(field, value, messages));
+    }
+  };
+
+  const handleFilesChange = (field: FormField, fieldFiles: File[]) => {
+    setFiles(prev => ({ ...prev, [field.name]: fieldFiles }));
+    if (error) reset();
+    dismissQueueSent();
+
+    // Choosing files is a single action, so check them right away
+    setFieldError(field.name, validateFiles(field, fieldFiles, messages));
+  };
+
+  const handleBlur = (field: FormField) => {
+    // Don't flag fields the user has only tabbed through
+    if (!formData[field.name] && !fieldErrors[field.name]) return;
+    setFieldError(field.name, validateField(field, formData[field.name], messages));
+  };
+
+  const focusField = (name: string) => {
+    const element = formRef.current?.elements.namedItem(name);
+    if (element instanceof HTMLElement) element.focus();
+  };
+
+  useEffect(() => {
+    const target = pendingFocusRef.current;
+    if (!target) return;
+
+    pendingFocusRef.current = null;
+    if (target === STEP_HEADING) {
+      stepHeadingRef.current?.focus();
+    } else {
+      focusField(target);
+    }
+  });
+
+  const goToStep = (index: number, focusTarget: string = STEP_HEADING) => {
+    pendingFocusRef.current = focusTarget;
+    setStepIndex(index);
+  };
+
+  /**
+   * Validate some fields, showing their errors; focuses the first invalid
+   * field (switching to its step in wizard mode) and returns false if any fail
+   */
+  const validateFields = (fields: FormField[]): boolean => {
+    const validation = validateInquiry(fields, formData, files, messages);
+    setFieldErrors(validation.errors);
+
+    const firstInvalid = fields.find(field => validation.errors[field.name]);
+    if (!firstInvalid) return true;
+
+    const invalidStep = steps.findIndex(step => step.fields.includes(firstInvalid));
+    if (wizard && invalidStep !== currentStep) {
+      goToStep(invalidStep, firstInvalid.name);
+    } else {
+      focusField(firstInvalid.name);
+    }
+    return false;
   };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
+
+    // In a wizard, submitting a step (Next, or Enter in a field) moves on
+    if (wizard && !reviewing) {
+      if (validateFields(steps[currentStep].fields)) {
+        goToStep(currentStep + 1);
+      }
+      return;
+    }
     
-    // Check rate limiting
+    // Check rate limiting; the countdown below the status explains why
     if (!canSubmit()) {
-      setValidationErrors([`Please wait ${timeRemaining()} seconds before submitting again.`]);
       return;
     }
     
-    // Prepare form data for validation
-    const inquiryData = {
-      name: formData.name || '',
-      email: formData.email || '',
-      subject: formData.subject || '',
-      message: formData.message || '',
-    };
-    
-    // Validate input
-    const validation = validateInquiry(inquiryData);
-    if (!validation.isValid) {
-      setValidationErrors(validation.errors);
+    // Validate every field defined in the CMS
+    const allFields = wizard ? steps.flatMap(step => step.fields) : content.formFields;
+    if (!validateFields(allFields)) {
       return;
     }
     
+    const spam = spamProtection.check();
+    if (spam.status === 'bot') {
+      setDropped(true);
+      resetForm();
+      return;
+    }
+    if (spam.status === 'too-fast') {
+      setFormNotice(labels.tooFast);
+      return;
+    }
+
     // Sanitize input before submission
-    const sanitizedData = sanitizeInquiry(inquiryData);
+    const sanitizedData = sanitizeInquiry(content.formFields, formData);
     
-    const submitted = await submit(sanitizedData);
+    const submitted = await submit(sanitizedData, files, spam.spamCheck);
 
+    // A refused inquiry (e.g. a 429, which blocks the form for its
+    // Retry-After) isn't counted, and the form keeps its values to send later
     if (submitted) {
       recordSubmit(); // Record submission for rate limiting
-      setFormData(initialFormData);
-      setValidationErrors([]);
+      resetForm();
     }
   };
 
+  const resetForm = () => {
+    clearDraft();
+    spamProtection.reset();
+    setFormData(initialFormData);
+    setFiles({});
+    setFieldErrors({});
+    if (wizard) goToStep(0);
+  };
+
   const renderField = (field: FormField) => {
+    const fieldError = fieldErrors[field.name];
     const commonProps = {
       id: field.name,
+      name: field.name,
       value: formData[field.name] || '',
       onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => 
-        handleChange(field.name, e.target.value),
+        handleChange(field, e.target.value),
+      onBlur: () => handleBlur(field),
       placeholder: field.placeholder,
       required: field.required,
       disabled: loading,
+      'aria-invalid': fieldError ? true : undefined,
+      'aria-describedby': fieldError ? errorId(field) : undefined,
     };
 
     switch (field.type) {
+      case 'file':
+        return (
+          <FileDropzone
+            field={field}
+            files={files[field.name] ?? []}
+            labels={labels}
+            onChange={(fieldFiles) => handleFilesChange(field, fieldFiles)}
+            disabled={loading}
+            invalid={Boolean(fieldError)}
+            describedBy={fieldError ? errorId(field) : undefined}
+          />
+        );
+
       case 'textarea':
         return (
           <textarea
@@ -116,9 +430,79 @@ export const Contact: React.FC<ContactProps> = ({ content }) => {
     }
   };
 
+  const renderFormGroup = (field: FormField) => (
+    <div key={field.id} className={`form-group ${fieldErrors[field.name] ? 'has-error' : ''}`}>
+      <label htmlFor={field.name}>{field.label}</label>
+      {renderField(field)}
+      {fieldErrors[field.name] && (
+        <p id={errorId(field)} className="field-error">
+          {fieldErrors[field.name]}
+        </p>
+      )}
+    </div>
+  );
+
   // Group fields for layout (first two fields in a row, rest full width)
-  const rowFields = content.formFields.slice(0, 2);
-  const fullWidthFields = content.formFields.slice(2);
+  const renderFields = (fields: FormField[]) => {
+    const rowFields = fields.slice(0, 2);
+    const fullWidthFields = fields.slice(2);
+
+    return (
+      <>
+        {rowFields.length > 0 && (
+          <div className="form-row">
+            {rowFields.map(renderFormGroup)}
+          </div>
+        )}
+        
+        {fullWidthFields.map(renderFormGroup)}
+      </>
+    );
+  };
+
+  const renderStep = () => {
+    const step = reviewing ? null : steps[currentStep];
+    const title = step ? step.title : content.reviewTitle || 'Review';
+
+    return (
+      <div className="form-step">
+        <StepProgress
+          titles={[...steps.map(s => s.title), content.reviewTitle || 'Review']}
+          current={currentStep}
+          labels={labels}
+        />
+        <p className="form-step-count">
+          {formatText(labels.stepCount, { step: currentStep + 1, total: steps.length + 1 })}
+        </p>
+        <h3 ref={stepHeadingRef} className="form-step-title" tabIndex={-1}>
+          {title}
+        </h3>
+        {step?.description && <p className="form-step-description">{step.description}</p>}
+
+        {step ? renderFields(step.fields) : (
+          <ReviewStep
+            steps={steps}
+            values={formData}
+            files={files}
+            disabled={loading}
+            labels={labels}
+            onEdit={goToStep}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const submitButton = (
+    <button 
+      type="submit" 
+      className="btn btn-primary btn-submit"
+      disabled={loading || isRateLimited}
+    >
+      {loading ? labels.sending : content.submitButton.label} 
+      {!loading && <ArrowRightIcon className="icon-directional" />}
+    </button>
+  );
 
   return (
     <section id="contact" className="section contact-section">
@@ -130,61 +514,118 @@ export const Contact: React.FC<ContactProps> = ({ content }) => {
         </div>
         
         <div className="contact-container">
-          <form className="contact-form" onSubmit={handleSubmit}>
-            {success && (
-              <div className="form-success">
-                {content.successMessage}
-              </div>
-            )}
-            
-            {error && (
-              <div className="form-error">
-                {error}
+          <form ref={formRef} className="contact-form" onSubmit={handleSubmit} noValidate>
+            {/* Announces submission results; field errors are announced on focus */}
+            <div className="form-status" aria-live="polite" aria-atomic="true">
+              {(success || dropped) && (
+                <div className="form-success">
+                  {content.successMessage}
+                </div>
+              )}
+              
+              {error && (
+                <div className="form-error">
+                  {error}
+                </div>
+              )}
+              
+              {queued && (
+                <div className="form-warning">
+                  {labels.queued}
+                </div>
+              )}
+
+              {!queued && waiting > 0 && (
+                <div className="form-warning">
+                  {queue.entries.some(entry => entry.status === 'sending')
+                    ? labels.sendingQueued
+                    : formatText(waiting === 1 ? labels.waitingOne : labels.waitingMany, { count: waiting })}
+                </div>
+              )}
+
+              {queueState.sent && (
+                <div className="form-success">
+                  {labels.queueSent} {content.successMessage}
+                </div>
+              )}
+
+              {failedEntries.map(entry => (
+                <div key={entry.key} className="form-error form-queue-failed">
+                  <span>{formatText(labels.queueFailed, { error: entry.error ?? '' })}</span>
+                  <button
+                    type="button"
+                    className="form-draft-discard"
+                    onClick={() => queue.discard(entry.key)}
+                  >
+                    {labels.dismiss}
+                  </button>
+                </div>
+              ))}
+
+              {formNotice && (
+                <div className="form-warning">
+                  {formNotice}
+                </div>
+              )}
+            </div>
+
+            {/* Outside the live region, so the countdown isn't read out every second */}
+            {isRateLimited && (
+              <div className="form-warning" role="timer">
+                {formatText(labels.rateLimited, { time: formatCountdown(secondsRemaining, labels) })}
               </div>
             )}
-            
-            {validationErrors.length > 0 && (
-              <div className="form-error">
-                <ul className="validation-errors">
-                  {validationErrors.map((err, index) => (
-                    <li key={index}>{err}</li>
-                  ))}
-                </ul>
+
+            {savedDraft && (
+              <div className="form-draft">
+                <p>
+                  {formatText(labels.draftSaved, { date: new Date(savedDraft.savedAt).toLocaleString() })}
+                </p>
+                <div className="form-draft-actions">
+                  <button type="button" className="btn btn-secondary" onClick={handleRestoreDraft}>
+                    {labels.restoreDraft}
+                  </button>
+                  <button type="button" className="form-draft-discard" onClick={discardDraft}>
+                    {labels.discardDraft}
+                  </button>
+                </div>
               </div>
             )}
             
-            {isRateLimited && (
-              <div className="form-warning">
-                Please wait {timeRemaining()} seconds before submitting again.
-              </div>
-            )}
+            {wizard ? renderStep() : renderFields(content.formFields)}
             
-            {rowFields.length > 0 && (
-              <div className="form-row">
-                {rowFields.map((field) => (
-                  <div key={field.id} className="form-group">
-                    <label htmlFor={field.name}>{field.label}</label>
-                    {renderField(field)}
-                  </div>
-                ))}
+            {/* Honeypot: hidden from people and assistive technology, left empty */}
+            <div className="form-honeypot" aria-hidden="true">
+              <label htmlFor={spamProtection.honeypotProps.id}>Leave this field empty</label>
+              <input type="text" tabIndex={-1} autoComplete="off" {...spamProtection.honeypotProps} />
+            </div>
+
+            {uploadProgress !== null && (
+              <div className="upload-progress">
+                <progress value={uploadProgress} max={1} aria-label={labels.uploadProgress} />
+                <span>{Math.round(uploadProgress * 100)}%</span>
               </div>
             )}
-            
-            {fullWidthFields.map((field) => (
-              <div key={field.id} className="form-group">
-                <label htmlFor={field.name}>{field.label}</label>
-                {renderField(field)}
+
+            {wizard ? (
+              <div className="form-step-nav">
+                {currentStep > 0 && (
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={() => goToStep(currentStep - 1)}
+                    disabled={loading}
+                  >
+                    {labels.back}
+                  </button>
+                )}
+                {reviewing ? submitButton : (
+                  <button type="submit" className="btn btn-primary btn-next">
+                    {labels.next} <ArrowRightIcon className="icon-directional" />
+                  </button>
+                )}
               </div>
-            ))}
-            
-            <button 
-              type="submit" 
-              className="btn btn-primary btn-submit"
-              disabled={loading || isRateLimited}
-            >
-              {loading ? 'Sending...' : content.submitButton.label} 
-              {!loading && <ArrowRightIcon />}
-            </button>
+            ) : submitButton}
           </form>
         </div>
       </div>
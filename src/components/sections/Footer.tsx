@@ -6,6 +6,7 @@
 
 import React from 'react';
 import type { FooterContent } from '../../types/content';
+import { Link } from '../Link';
 
 interface FooterProps {
   content: FooterContent;
@@ -25,14 +26,14 @@ export const Footer: React.FC<FooterProps> = ({ content }) => {
           </div>
           <div className="footer-links">
             {content.links.map((link) => (
-              <a 
+              <Link 
                 key={link.id} 
-                href={link.href}
+                to={link.href}
                 target={link.isExternal ? '_blank' : undefined}
                 rel={link.isExternal ? 'noopener noreferrer' : undefined}
               >
                 {link.label}
-              </a>
+              </Link>
             ))}
           </div>
         </div>
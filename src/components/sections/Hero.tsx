@@ -26,7 +26,7 @@ export const Hero: React.FC<HeroProps> = ({ content }) => {
           <p className="hero-subtitle">{content.subtitle}</p>
           <div className="hero-buttons">
             <a href={content.primaryButton.href} className="btn btn-primary">
-              {content.primaryButton.label} <ArrowRightIcon />
+              {content.primaryButton.label} <ArrowRightIcon className="icon-directional" />
             </a>
             <a href={content.secondaryButton.href} className="btn btn-secondary">
               {content.secondaryButton.label}
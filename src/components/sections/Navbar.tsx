@@ -2,17 +2,24 @@
  * Navbar Component
  * 
  * Navigation bar with CMS-driven content support.
+ * Shows a language switcher when the site is offered in several locales.
  */
 
 import React, { useState } from 'react';
-import type { NavigationContent } from '../../types/content';
+import type { LocaleCode, LocaleInfo, NavigationContent } from '../../types/content';
 import { MenuIcon, CloseIcon } from '../icons/ServiceIcons';
+import { Link } from '../Link';
 
 interface NavbarProps {
   content: NavigationContent;
+  /** Current locale */
+  locale?: LocaleCode;
+  /** Locales to offer in the language switcher */
+  locales?: LocaleInfo[];
+  onLocaleChange?: (locale: LocaleCode) => void;
 }
 
-export const Navbar: React.FC<NavbarProps> = ({ content }) => {
+export const Navbar: React.FC<NavbarProps> = ({ content, locale, locales = [], onLocaleChange }) => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const handleLinkClick = () => {
@@ -22,40 +29,57 @@ export const Navbar: React.FC<NavbarProps> = ({ content }) => {
   return (
     <nav className="navbar">
       <div className="container navbar-container">
-        <a href="#" className="logo">
+        <Link to="#" className="logo">
           {content.logoImage ? (
             <img src={content.logoImage} alt={content.logoText} className="logo-image" />
           ) : (
             <span className="logo-text">{content.logoText}</span>
           )}
-        </a>
+        </Link>
         
         <ul className={`nav-links ${mobileMenuOpen ? 'active' : ''}`}>
           {content.links.map((link) => (
             <li key={link.id}>
-              <a 
-                href={link.href} 
+              <Link 
+                to={link.href} 
                 onClick={handleLinkClick}
                 target={link.isExternal ? '_blank' : undefined}
                 rel={link.isExternal ? 'noopener noreferrer' : undefined}
               >
                 {link.label}
-              </a>
+              </Link>
             </li>
           ))}
         </ul>
         
-        <a href={content.ctaButton.href} className="btn btn-primary nav-cta">
-          {content.ctaButton.label}
-        </a>
-        
-        <button 
-          className="mobile-menu-btn"
-          onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-          aria-label={mobileMenuOpen ? 'Close menu' : 'Open menu'}
-        >
-          {mobileMenuOpen ? <CloseIcon /> : <MenuIcon />}
-        </button>
+        <div className="navbar-actions">
+          {onLocaleChange && locales.length > 1 && (
+            <select
+              className="locale-switcher"
+              value={locale}
+              onChange={(e) => onLocaleChange(e.target.value)}
+              aria-label={content.localeSwitcherLabel || 'Language'}
+            >
+              {locales.map((option) => (
+                <option key={option.code} value={option.code} lang={option.code} dir={option.direction}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <Link to={content.ctaButton.href} className="btn btn-primary nav-cta">
+            {content.ctaButton.label}
+          </Link>
+          
+          <button 
+            className="mobile-menu-btn"
+            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            aria-label={mobileMenuOpen ? content.closeMenuLabel || 'Close menu' : content.openMenuLabel || 'Open menu'}
+          >
+            {mobileMenuOpen ? <CloseIcon /> : <MenuIcon />}
+          </button>
+        </div>
       </div>
     </nav>
   );
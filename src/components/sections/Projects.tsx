@@ -2,18 +2,174 @@
  * Projects Section Component
  * 
  * Projects showcase section with CMS-driven content support.
+ * Projects can be filtered by category and technology, searched, and
+ * limited to featured projects; filters are kept in the URL query string.
+ * Unfiltered, projects are loaded page by page when content.pagination is set.
  */
 
-import React from 'react';
-import type { ProjectsContent } from '../../types/content';
+import React, { useMemo, useRef } from 'react';
+import type { LocaleCode, Project, ProjectsContent, ProjectsLabels } from '../../types/content';
+import { defaultProjectsLabels } from '../../content/defaultContent';
+import { projectPath } from '../../utils/router';
+import {
+  filterProjects,
+  getProjectFacets,
+  hasActiveFilters,
+  type FacetOption,
+} from '../../utils/projectFilters';
+import { useProjectFilters } from '../../hooks/useProjectFilters';
+import { useFeaturedProjects, useProjectsPaginated } from '../../hooks/useContent';
+import { useInfiniteScroll } from '../../hooks/useInfiniteScroll';
+import { Link } from '../Link';
+import { formatText } from '../../utils/text';
 
 interface ProjectsProps {
   content: ProjectsContent;
+  /** Locale of the projects loaded page by page */
+  locale?: LocaleCode;
 }
 
-export const Projects: React.FC<ProjectsProps> = ({ content }) => {
+interface FacetGroupProps {
+  label: string;
+  options: FacetOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+interface PageNavProps {
+  page: number;
+  totalPages: number;
+  disabled: boolean;
+  labels: ProjectsLabels;
+  onChange: (page: number) => void;
+}
+
+function byOrder(a: Project, b: Project): number {
+  return a.order - b.order;
+}
+
+const FacetGroup: React.FC<FacetGroupProps> = ({ label, options, selected, onChange }) => {
+  const isSelected = (value: string) =>
+    selected.some(item => item.toLowerCase() === value.toLowerCase());
+
+  const toggle = (value: string) => {
+    onChange(isSelected(value)
+      ? selected.filter(item => item.toLowerCase() !== value.toLowerCase())
+      : [...selected, value]);
+  };
+
+  return (
+    <fieldset className="project-facet">
+      <legend className="project-facet-label">{label}</legend>
+      <div className="project-facet-options">
+        {options.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            className={`facet-chip ${isSelected(option.value) ? 'active' : ''}`}
+            aria-pressed={isSelected(option.value)}
+            onClick={() => toggle(option.value)}
+          >
+            {option.value} <span className="facet-count">{option.count}</span>
+          </button>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+const PageNav: React.FC<PageNavProps> = ({ page, totalPages, disabled, labels, onChange }) => {
+  const pages = Array.from({ length: totalPages }, (_, index) => index + 1);
+
+  return (
+    <nav className="project-pagination" aria-label={labels.pageNavigation}>
+      <button
+        type="button"
+        className="page-button"
+        onClick={() => onChange(page - 1)}
+        disabled={disabled || page <= 1}
+      >
+        {labels.previousPage}
+      </button>
+      {pages.map(number => (
+        <button
+          key={number}
+          type="button"
+          className={`page-button ${number === page ? 'active' : ''}`}
+          onClick={() => onChange(number)}
+          disabled={disabled}
+          aria-current={number === page ? 'page' : undefined}
+          aria-label={formatText(labels.page, { page: number })}
+        >
+          {number}
+        </button>
+      ))}
+      <button
+        type="button"
+        className="page-button"
+        onClick={() => onChange(page + 1)}
+        disabled={disabled || page >= totalPages}
+      >
+        {labels.nextPage}
+      </button>
+    </nav>
+  );
+};
+
+export const Projects: React.FC<ProjectsProps> = ({ content, locale }) => {
+  const labels = { ...defaultProjectsLabels, ...content.labels };
+  const { filters, setFilters, clearFilters } = useProjectFilters();
+  const featured = useFeaturedProjects({ enabled: filters.featuredOnly, locale });
+
   // Sort projects by order
-  const sortedProjects = [...content.projects].sort((a, b) => a.order - b.order);
+  const sortedProjects = useMemo(() => [...content.projects].sort(byOrder), [content.projects]);
+
+  // Facets cover every project, so options don't disappear while filtering
+  const facets = useMemo(() => getProjectFacets(sortedProjects), [sortedProjects]);
+
+  // "Featured only" uses the CMS featured list once it has loaded
+  const source = filters.featuredOnly && featured.data
+    ? [...featured.data].sort(byOrder)
+    : sortedProjects;
+  const filtering = hasActiveFilters(filters);
+
+  // Filtered views search every project; the default view is paged
+  const { pagination } = content;
+  const paging = Boolean(pagination) && !filtering;
+  const paged = useProjectsPaginated({
+    pageSize: pagination?.pageSize,
+    mode: pagination?.mode,
+    enabled: paging,
+    locale,
+    fallbackProjects: sortedProjects,
+  });
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useInfiniteScroll(sentinelRef, paged.loadMore, {
+    enabled: paging && pagination?.mode === 'infinite' && paged.hasMore && !paged.loading,
+  });
+
+  let visibleProjects: Project[];
+  if (!paging) {
+    visibleProjects = filterProjects(source, filters);
+  } else if (paged.page === 0) {
+    // First page still loading: show the first projects we already have
+    visibleProjects = sortedProjects.slice(0, pagination?.pageSize);
+  } else {
+    visibleProjects = paged.projects;
+  }
+
+  const handlePageChange = (page: number) => {
+    paged.goToPage(page);
+    document.getElementById('projects')?.scrollIntoView();
+  };
+
+  let resultsText = '';
+  if (filtering) {
+    resultsText = formatText(labels.results, { shown: visibleProjects.length, total: sortedProjects.length });
+  } else if (paging && paged.page > 0 && paged.totalPages > 1) {
+    resultsText = formatText(labels.results, { shown: visibleProjects.length, total: paged.totalItems });
+  }
 
   return (
     <section id="projects" className="section projects-section">
@@ -23,9 +179,66 @@ export const Projects: React.FC<ProjectsProps> = ({ content }) => {
           <h2 className="section-title">{content.sectionTitle}</h2>
           <p className="section-subtitle">{content.sectionSubtitle}</p>
         </div>
+
+        <div className="project-filters" role="search">
+          <div className="project-filters-row">
+            <input
+              type="search"
+              className="project-search"
+              value={filters.query}
+              onChange={(e) => setFilters({ query: e.target.value })}
+              placeholder={content.searchPlaceholder || 'Search projects...'}
+              aria-label={labels.search}
+            />
+            <label className="project-featured-toggle">
+              <input
+                type="checkbox"
+                checked={filters.featuredOnly}
+                onChange={(e) => setFilters({ featuredOnly: e.target.checked })}
+              />
+              {labels.featuredOnly}
+            </label>
+            {filtering && (
+              <button type="button" className="project-filters-clear" onClick={clearFilters}>
+                {labels.clearFilters}
+              </button>
+            )}
+          </div>
+          {facets.categories.length > 1 && (
+            <FacetGroup
+              label={labels.category}
+              options={facets.categories}
+              selected={filters.categories}
+              onChange={(categories) => setFilters({ categories })}
+            />
+          )}
+          {facets.technologies.length > 0 && (
+            <FacetGroup
+              label={labels.technology}
+              options={facets.technologies}
+              selected={filters.technologies}
+              onChange={(technologies) => setFilters({ technologies })}
+            />
+          )}
+        </div>
+
+        <p className="project-results" aria-live="polite">
+          {resultsText}
+        </p>
+
+        {visibleProjects.length === 0 && (
+          <div className="project-empty">
+            <p>{content.noResultsText || 'No projects match your filters.'}</p>
+            {filtering && (
+              <button type="button" className="btn btn-secondary" onClick={clearFilters}>
+                {labels.clearFilters}
+              </button>
+            )}
+          </div>
+        )}
         
         <div className="projects-grid">
-          {sortedProjects.map((project) => (
+          {visibleProjects.map((project) => (
             <div key={project.id} className="project-card">
               <div className="project-image">
                 {project.image ? (
@@ -42,7 +255,9 @@ export const Projects: React.FC<ProjectsProps> = ({ content }) => {
               </div>
               <div className="project-content">
                 <span className="project-category">{project.category}</span>
-                <h3 className="project-title">{project.title}</h3>
+                <h3 className="project-title">
+                  <Link to={projectPath(project.slug)}>{project.title}</Link>
+                </h3>
                 <p className="project-description">
                   {project.shortDescription || project.description}
                 </p>
@@ -53,34 +268,68 @@ export const Projects: React.FC<ProjectsProps> = ({ content }) => {
                     ))}
                   </div>
                 )}
-                {(project.liveUrl || project.githubUrl) && (
-                  <div className="project-links">
-                    {project.liveUrl && (
-                      <a 
-                        href={project.liveUrl} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="project-link"
-                      >
-                        View Live
-                      </a>
-                    )}
-                    {project.githubUrl && (
-                      <a 
-                        href={project.githubUrl} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="project-link"
-                      >
-                        GitHub
-                      </a>
-                    )}
-                  </div>
-                )}
+                <div className="project-links">
+                  <Link to={projectPath(project.slug)} className="project-link">
+                    {labels.viewDetails}
+                  </Link>
+                  {project.liveUrl && (
+                    <a 
+                      href={project.liveUrl} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="project-link"
+                    >
+                      {labels.viewLive}
+                    </a>
+                  )}
+                  {project.githubUrl && (
+                    <a 
+                      href={project.githubUrl} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="project-link"
+                    >
+                      GitHub
+                    </a>
+                  )}
+                </div>
               </div>
             </div>
           ))}
         </div>
+
+        {paging && paged.error && paged.page > 0 && (
+          <div className="form-error project-pagination-error">
+            {labels.pageError}
+          </div>
+        )}
+
+        {paging && pagination?.mode === 'pages' && paged.totalPages > 1 && (
+          <PageNav
+            page={paged.page}
+            totalPages={paged.totalPages}
+            disabled={paged.loading}
+            labels={labels}
+            onChange={handlePageChange}
+          />
+        )}
+
+        {paging && pagination?.mode !== 'pages' && paged.hasMore && (
+          <div className="project-load-more">
+            {/* In infinite mode the button remains as a fallback (keyboard, no IntersectionObserver) */}
+            {pagination?.mode === 'infinite' && (
+              <div ref={sentinelRef} className="project-sentinel" aria-hidden="true" />
+            )}
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => paged.loadMore()}
+              disabled={paged.loading}
+            >
+              {paged.loading ? labels.loading : labels.loadMore}
+            </button>
+          </div>
+        )}
       </div>
     </section>
   );
@@ -13,8 +13,11 @@ import type {
   HeroContent,
   ServicesContent,
   ProjectsContent,
+  ProjectsLabels,
   ContactContent,
+  ContactLabels,
   FooterContent,
+  SiteLabels,
 } from '../types/content';
 
 // ============================================
@@ -26,6 +29,8 @@ export const defaultMetadata: SiteMetadata = {
   siteDescription: 'Triji - Your trusted software solution partner. We build innovative digital solutions that drive business growth.',
   siteUrl: 'https://triji.dev',
   ogImage: '/og-image.png',
+  title: 'Triji | Software Solutions',
+  titleTemplate: '{title} | {siteName}',
 };
 
 // ============================================
@@ -44,6 +49,9 @@ export const defaultNavigation: NavigationContent = {
     label: 'Get in Touch',
     href: '#contact',
   },
+  localeSwitcherLabel: 'Language',
+  openMenuLabel: 'Open menu',
+  closeMenuLabel: 'Close menu',
 };
 
 // ============================================
@@ -130,11 +138,45 @@ export const defaultServices: ServicesContent = {
 // PROJECTS SECTION
 // ============================================
 
+export const defaultProjectsLabels: ProjectsLabels = {
+  search: 'Search projects',
+  featuredOnly: 'Featured only',
+  clearFilters: 'Clear filters',
+  category: 'Category',
+  technology: 'Technology',
+  results: 'Showing {shown} of {total} projects',
+  pageNavigation: 'Project pages',
+  previousPage: 'Previous',
+  nextPage: 'Next',
+  page: 'Page {page}',
+  loadMore: 'Load More Projects',
+  loading: 'Loading...',
+  pageError: 'Some projects could not be loaded. Please try again.',
+  viewDetails: 'View Details',
+  viewLive: 'View Live',
+  backToProjects: 'Back to Projects',
+  loadingProject: 'Loading project...',
+  projectError: 'This project could not be loaded. Please try again.',
+  tryAgain: 'Try Again',
+  notFoundTitle: 'Project not found',
+  notFoundMessage: "This project doesn't exist or is no longer available.",
+  published: 'Published {date}',
+  technologies: 'Technologies',
+  showImage: 'Show image {index} of {total}',
+};
+
 export const defaultProjects: ProjectsContent = {
   sectionTag: 'Our Work',
   sectionTitle: 'Project Showcase',
   sectionSubtitle: 'Explore our portfolio of successful projects and digital solutions',
   placeholderText: 'Coming Soon',
+  searchPlaceholder: 'Search projects...',
+  noResultsText: 'No projects match your filters.',
+  labels: defaultProjectsLabels,
+  pagination: {
+    pageSize: 6,
+    mode: 'load-more',
+  },
   projects: [
     {
       id: 'project-alpha',
@@ -170,6 +212,35 @@ export const defaultProjects: ProjectsContent = {
 // CONTACT SECTION
 // ============================================
 
+export const defaultContactLabels: ContactLabels = {
+  progress: 'Form progress',
+  stepCount: 'Step {step} of {total}',
+  back: 'Back',
+  next: 'Next',
+  edit: 'Edit',
+  editStep: 'Edit {step}',
+  notProvided: 'Not provided',
+  sending: 'Sending...',
+  queued: "We couldn't reach our server, so your inquiry has been saved. It will be sent automatically once the connection is back.",
+  sendingQueued: 'Sending your saved inquiry...',
+  waitingOne: 'An inquiry is waiting to be sent.',
+  waitingMany: '{count} inquiries are waiting to be sent.',
+  queueSent: 'Your saved inquiry has been sent.',
+  queueFailed: 'An inquiry saved earlier could not be sent: {error}',
+  dismiss: 'Dismiss',
+  tooFast: 'Please take a moment to review your message, then send it again.',
+  rateLimited: 'Please wait {time} before submitting again.',
+  second: '{count} second',
+  seconds: '{count} seconds',
+  minutes: '{time} minutes',
+  draftSaved: 'You have an unsent message from {date}.',
+  restoreDraft: 'Restore draft',
+  discardDraft: 'Discard',
+  uploadProgress: 'Upload progress',
+  dropFiles: 'Drop files here or click to browse',
+  removeFile: 'Remove {name}',
+};
+
 export const defaultContact: ContactContent = {
   sectionTag: 'Get in Touch',
   sectionTitle: 'Send Us an Inquiry',
@@ -182,6 +253,10 @@ export const defaultContact: ContactContent = {
       type: 'text',
       placeholder: 'John Doe',
       required: true,
+      validation: {
+        minLength: 2,
+        maxLength: 100,
+      },
     },
     {
       id: 'field-email',
@@ -190,6 +265,44 @@ export const defaultContact: ContactContent = {
       type: 'email',
       placeholder: 'john@example.com',
       required: true,
+      validation: {
+        maxLength: 254,
+      },
+    },
+    {
+      id: 'field-service',
+      name: 'service',
+      label: 'Service of Interest',
+      type: 'select',
+      placeholder: 'Select a service',
+      required: true,
+      options: [
+        'Web Development',
+        'Mobile Development',
+        'Cloud Solutions',
+        'Backend Systems',
+        'UI/UX Design',
+        'Security & Support',
+        'Not sure yet',
+      ],
+    },
+    {
+      id: 'field-budget',
+      name: 'budget',
+      label: 'Budget',
+      type: 'select',
+      placeholder: 'Select a budget range',
+      required: false,
+      options: ['Under $10k', '$10k - $25k', '$25k - $50k', '$50k - $100k', 'Over $100k'],
+    },
+    {
+      id: 'field-timeline',
+      name: 'timeline',
+      label: 'Timeline',
+      type: 'select',
+      placeholder: 'Select a timeline',
+      required: false,
+      options: ['As soon as possible', '1 - 3 months', '3 - 6 months', 'More than 6 months', 'Flexible'],
     },
     {
       id: 'field-subject',
@@ -198,6 +311,10 @@ export const defaultContact: ContactContent = {
       type: 'text',
       placeholder: 'Project Inquiry',
       required: true,
+      validation: {
+        minLength: 3,
+        maxLength: 200,
+      },
     },
     {
       id: 'field-message',
@@ -207,13 +324,51 @@ export const defaultContact: ContactContent = {
       placeholder: 'Tell us about your project...',
       required: true,
       rows: 6,
+      validation: {
+        minLength: 10,
+        maxLength: 5000,
+      },
+    },
+    {
+      id: 'field-attachments',
+      name: 'attachments',
+      label: 'Attachments',
+      type: 'file',
+      placeholder: 'Drop a brief or mockups here, or click to browse (PDF, images, Word; up to 10 MB each)',
+      required: false,
+      validation: {
+        maxFiles: 3,
+        maxFileSize: 10 * 1024 * 1024,
+        accept: ['application/pdf', 'image/*', '.doc', '.docx'],
+      },
     },
   ],
+  steps: [
+    {
+      id: 'step-contact',
+      title: 'Your Details',
+      description: 'How can we reach you?',
+      fields: ['name', 'email'],
+    },
+    {
+      id: 'step-project',
+      title: 'Your Project',
+      description: 'Tell us what you need, so the right people get back to you.',
+      fields: ['service', 'budget', 'timeline'],
+    },
+    {
+      id: 'step-message',
+      title: 'Your Message',
+      fields: ['subject', 'message', 'attachments'],
+    },
+  ],
+  reviewTitle: 'Review & Send',
   submitButton: {
     label: 'Send Message',
   },
   successMessage: "Thank you for your message! We'll get back to you soon.",
   errorMessage: 'Something went wrong. Please try again later.',
+  labels: defaultContactLabels,
 };
 
 // ============================================
@@ -237,6 +392,13 @@ export const defaultFooter: FooterContent = {
 // COMPLETE SITE CONTENT
 // ============================================
 
+export const defaultSiteLabels: SiteLabels = {
+  loading: 'Loading...',
+  notFoundTitle: 'Page not found',
+  notFoundMessage: "The page you're looking for doesn't exist or has been moved.",
+  backToHome: 'Back to Home',
+};
+
 export const defaultSiteContent: SiteContent = {
   metadata: defaultMetadata,
   navigation: defaultNavigation,
@@ -245,4 +407,5 @@ export const defaultSiteContent: SiteContent = {
   projects: defaultProjects,
   contact: defaultContact,
   footer: defaultFooter,
+  labels: defaultSiteLabels,
 };
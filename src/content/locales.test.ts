@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import appStyles from '../App.css?raw';
+import baseStyles from '../index.css?raw';
+import { siteContentSchema } from '../services/contentSchemas';
+import { parseWithSchema } from '../utils/schema';
+import {
+  SUPPORTED_LOCALES,
+  applyLocaleAttributes,
+  getLocaleContent,
+  getLocaleDirection,
+  resolveLocale,
+} from './locales';
+
+const styles = `${baseStyles}\n${appStyles}`;
+
+describe('locales', () => {
+  it('offers a right-to-left locale', () => {
+    expect(SUPPORTED_LOCALES.filter(locale => locale.direction === 'rtl').map(locale => locale.code))
+      .toEqual(['ar']);
+    expect(resolveLocale('ar')).toBe('ar');
+  });
+
+  it('reads the writing direction of a locale', () => {
+    expect(getLocaleDirection('ar')).toBe('rtl');
+    expect(getLocaleDirection('es')).toBe('ltr');
+    expect(getLocaleDirection('xx')).toBe('ltr');
+  });
+
+  it('gives every locale complete, valid content', () => {
+    for (const { code } of SUPPORTED_LOCALES) {
+      expect(parseWithSchema(siteContentSchema, getLocaleContent(code)).issues).toEqual([]);
+    }
+    expect(getLocaleContent('ar').contact.labels?.next).toBe('التالي');
+    expect(getLocaleContent('ar').contact.validationMessages?.required).toBe('{label} مطلوب');
+  });
+});
+
+describe('right-to-left layout', () => {
+  it('sets <html> lang and dir for the locale', () => {
+    const html = { lang: '', dir: '' };
+
+    applyLocaleAttributes(html, 'ar');
+    expect(html).toEqual({ lang: 'ar', dir: 'rtl' });
+
+    applyLocaleAttributes(html, 'en');
+    expect(html).toEqual({ lang: 'en', dir: 'ltr' });
+  });
+
+  it('uses logical properties, so the layout mirrors under dir="rtl"', () => {
+    expect(styles).not.toMatch(/(margin|padding|border)-(left|right)\s*:/);
+    expect(styles).not.toMatch(/(float|clear)\s*:\s*(left|right)/);
+  });
+
+  it('flips directional icons and left-to-right backgrounds under dir="rtl"', () => {
+    expect(styles).toMatch(/\[dir='rtl'\] \.icon-directional\s*\{[^}]*scaleX\(-1\)/);
+    expect(styles).toMatch(/\[dir='rtl'\] \.form-group select\s*\{[^}]*background-position: left/);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Locales
+ *
+ * The locales the site is offered in, and the default content for each:
+ * defaultContent.ts (the default locale) with the locale's translation
+ * merged over it, so untranslated fields fall back to the default locale.
+ */
+
+import type { ContentTranslation, LocaleCode, LocaleInfo, SiteContent, TextDirection } from '../types/content';
+import { defaultSiteContent } from './defaultContent';
+import { esContent } from './translations/es';
+import { arContent } from './translations/ar';
+import { deepMerge, type MergeOptions } from '../utils/merge';
+
+// ============================================
+// LOCALES
+// ============================================
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+export const SUPPORTED_LOCALES: LocaleInfo[] = [
+  { code: 'en', label: 'English', direction: 'ltr' },
+  { code: 'es', label: 'Español', direction: 'ltr' },
+  { code: 'ar', label: 'العربية', direction: 'rtl' },
+];
+
+export const SUPPORTED_LOCALE_CODES: LocaleCode[] = SUPPORTED_LOCALES.map(locale => locale.code);
+
+// Translations of defaultContent.ts, per locale
+const TRANSLATIONS: Record<LocaleCode, ContentTranslation> = {
+  es: esContent,
+  ar: arContent,
+};
+
+/**
+ * A supported locale, or the default locale for unknown or missing ones
+ */
+export function resolveLocale(locale: string | null | undefined): LocaleCode {
+  return SUPPORTED_LOCALE_CODES.find(code => code === locale) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Writing direction of a locale ('ltr' for unknown locales)
+ */
+export function getLocaleDirection(locale: LocaleCode): TextDirection {
+  return SUPPORTED_LOCALES.find(info => info.code === locale)?.direction ?? 'ltr';
+}
+
+/**
+ * Set the lang and dir attributes of an element (the document's <html>)
+ * for a locale; the stylesheets mirror the layout under dir="rtl"
+ */
+export function applyLocaleAttributes(element: { lang: string; dir: string }, locale: LocaleCode): void {
+  element.lang = locale;
+  element.dir = getLocaleDirection(locale);
+}
+
+// ============================================
+// TRANSLATED CONTENT
+// ============================================
+
+// Lists are translated item by item; lists of plain values are replaced
+const TRANSLATION_MERGE: MergeOptions = {
+  arrays: 'merge-by-id',
+  paths: {
+    'hero.codeSnippet.lines': 'replace',
+    'contact.formFields.options': 'replace',
+    'contact.formFields.validation.accept': 'replace',
+    'contact.steps.fields': 'replace',
+  },
+};
+
+/**
+ * Translate site content into a locale. Content for the default locale (or
+ * a locale without a translation) is returned unchanged.
+ */
+export function translateContent(content: SiteContent, locale: LocaleCode): SiteContent {
+  const translation = TRANSLATIONS[locale];
+  return translation ? deepMerge(content, translation, TRANSLATION_MERGE) : content;
+}
+
+const localeContent = new Map<LocaleCode, SiteContent>();
+
+/**
+ * Default content for a locale
+ */
+export function getLocaleContent(locale: LocaleCode): SiteContent {
+  let content = localeContent.get(locale);
+  if (!content) {
+    content = translateContent(defaultSiteContent, locale);
+    localeContent.set(locale, content);
+  }
+  return content;
+}
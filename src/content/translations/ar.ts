@@ -0,0 +1,238 @@
+/**
+ * Arabic Content
+ *
+ * Translation of defaultContent.ts, shown right to left. Fields left out
+ * here (and anything the CMS leaves out) are shown in the default locale.
+ * List items are matched to the default content by id.
+ */
+
+import type { ContentTranslation } from '../../types/content';
+
+export const arContent: ContentTranslation = {
+  metadata: {
+    title: 'تريجي | حلول برمجية',
+    siteDescription: 'تريجي - شريكك الموثوق في الحلول البرمجية. نبني حلولًا رقمية مبتكرة تدفع نمو أعمالك.',
+  },
+
+  navigation: {
+    links: [
+      { id: 'nav-home', label: 'الرئيسية' },
+      { id: 'nav-services', label: 'الخدمات' },
+      { id: 'nav-projects', label: 'المشاريع' },
+      { id: 'nav-contact', label: 'اتصل بنا' },
+    ],
+    ctaButton: {
+      label: 'تواصل معنا',
+    },
+    localeSwitcherLabel: 'اللغة',
+    openMenuLabel: 'فتح القائمة',
+    closeMenuLabel: 'إغلاق القائمة',
+  },
+
+  hero: {
+    tag: 'مجموعة حلول برمجية',
+    title: 'نحوّل الأفكار إلى',
+    titleHighlight: ' واقع رقمي',
+    subtitle: 'نحن تريجي: فريق شغوف من المطورين والمصممين والمبتكرين، نصنع حلولًا برمجية تدفع أعمالك إلى الأمام.',
+    primaryButton: {
+      label: 'ابدأ مشروعك',
+    },
+    secondaryButton: {
+      label: 'استعرض الخدمات',
+    },
+  },
+
+  services: {
+    sectionTag: 'ماذا نقدم',
+    sectionTitle: 'خدماتنا',
+    sectionSubtitle: 'حلول برمجية متكاملة مصممة لتلبية احتياجات أعمالك',
+    services: [
+      {
+        id: 'service-web',
+        title: 'تطوير الويب',
+        description: 'تطبيقات ويب مخصصة بتقنيات حديثة مثل React وVue وNode.js، قابلة للتوسع وعالية الأداء.',
+      },
+      {
+        id: 'service-mobile',
+        title: 'تطوير تطبيقات الجوال',
+        description: 'تطبيقات أصلية ومتعددة المنصات لنظامي iOS وAndroid بتجربة استخدام سلسة.',
+      },
+      {
+        id: 'service-cloud',
+        title: 'الحلول السحابية',
+        description: 'تصميم البنية السحابية والترحيل إليها وتحسينها للاستفادة القصوى من بنيتك التحتية.',
+      },
+      {
+        id: 'service-backend',
+        title: 'أنظمة الخوادم',
+        description: 'تطوير واجهات برمجة التطبيقات وتصميم قواعد البيانات وحلول الخوادم التي تشغّل تطبيقاتك.',
+      },
+      {
+        id: 'service-design',
+        title: 'تصميم واجهات وتجربة المستخدم',
+        description: 'تصميم يتمحور حول الإنسان يجمع بين الجمال والوظيفة في تجارب رقمية سهلة الاستخدام.',
+      },
+      {
+        id: 'service-security',
+        title: 'الأمان والدعم',
+        description: 'تدقيقات أمنية وصيانة مستمرة لتبقى أنظمتك محمية وتعمل دون مشكلات.',
+      },
+    ],
+  },
+
+  projects: {
+    sectionTag: 'أعمالنا',
+    sectionTitle: 'معرض المشاريع',
+    sectionSubtitle: 'استكشف مجموعة مشاريعنا الناجحة وحلولنا الرقمية',
+    placeholderText: 'قريبًا',
+    searchPlaceholder: 'ابحث في المشاريع...',
+    noResultsText: 'لا توجد مشاريع تطابق عوامل التصفية.',
+    labels: {
+      search: 'البحث في المشاريع',
+      featuredOnly: 'المميزة فقط',
+      clearFilters: 'مسح عوامل التصفية',
+      category: 'الفئة',
+      technology: 'التقنية',
+      results: 'عرض {shown} من {total} مشروعًا',
+      pageNavigation: 'صفحات المشاريع',
+      previousPage: 'السابق',
+      nextPage: 'التالي',
+      page: 'الصفحة {page}',
+      loadMore: 'تحميل المزيد من المشاريع',
+      loading: 'جارٍ التحميل...',
+      pageError: 'تعذّر تحميل بعض المشاريع. حاول مرة أخرى.',
+      viewDetails: 'عرض التفاصيل',
+      viewLive: 'عرض مباشر',
+      backToProjects: 'العودة إلى المشاريع',
+      loadingProject: 'جارٍ تحميل المشروع...',
+      projectError: 'تعذّر تحميل هذا المشروع. حاول مرة أخرى.',
+      tryAgain: 'حاول مرة أخرى',
+      notFoundTitle: 'المشروع غير موجود',
+      notFoundMessage: 'هذا المشروع غير موجود أو لم يعد متاحًا.',
+      published: 'نُشر في {date}',
+      technologies: 'التقنيات',
+      showImage: 'عرض الصورة {index} من {total}',
+    },
+    projects: [
+      { id: 'project-alpha', category: 'تطبيق ويب', description: 'حل متكامل للمؤسسات' },
+      { id: 'project-beta', category: 'تطبيق جوال', description: 'تجربة جوال متعددة المنصات' },
+      { id: 'project-gamma', category: 'منصة سحابية', description: 'بنية سحابية قابلة للتوسع' },
+    ],
+  },
+
+  contact: {
+    sectionTag: 'تواصل معنا',
+    sectionTitle: 'أرسل استفسارك',
+    sectionSubtitle: 'هل لديك مشروع في ذهنك؟ يسعدنا أن نسمع عنه. راسلنا وسنرد عليك في أقرب وقت.',
+    formFields: [
+      { id: 'field-name', label: 'اسمك', placeholder: 'محمد أحمد' },
+      { id: 'field-email', label: 'البريد الإلكتروني', placeholder: 'mohammed@example.com' },
+      {
+        id: 'field-service',
+        label: 'الخدمة المطلوبة',
+        placeholder: 'اختر خدمة',
+        options: [
+          'تطوير الويب',
+          'تطوير تطبيقات الجوال',
+          'الحلول السحابية',
+          'أنظمة الخوادم',
+          'تصميم واجهات وتجربة المستخدم',
+          'الأمان والدعم',
+          'لست متأكدًا بعد',
+        ],
+      },
+      {
+        id: 'field-budget',
+        label: 'الميزانية',
+        placeholder: 'اختر نطاقًا',
+        options: ['أقل من 10 آلاف دولار', '10 - 25 ألف دولار', '25 - 50 ألف دولار', '50 - 100 ألف دولار', 'أكثر من 100 ألف دولار'],
+      },
+      {
+        id: 'field-timeline',
+        label: 'المدة الزمنية',
+        placeholder: 'اختر مدة',
+        options: ['في أقرب وقت', '1 - 3 أشهر', '3 - 6 أشهر', 'أكثر من 6 أشهر', 'مرنة'],
+      },
+      { id: 'field-subject', label: 'الموضوع', placeholder: 'استفسار عن مشروع' },
+      { id: 'field-message', label: 'الرسالة', placeholder: 'حدّثنا عن مشروعك...' },
+      {
+        id: 'field-attachments',
+        label: 'المرفقات',
+        placeholder: 'اسحب ملخص المشروع أو التصاميم الأولية إلى هنا، أو انقر لاختيارها (PDF أو صور أو Word، حتى 10 ميغابايت لكل ملف)',
+      },
+    ],
+    steps: [
+      { id: 'step-contact', title: 'بياناتك', description: 'كيف يمكننا التواصل معك؟' },
+      {
+        id: 'step-project',
+        title: 'مشروعك',
+        description: 'أخبرنا بما تحتاجه ليرد عليك الشخص المناسب.',
+      },
+      { id: 'step-message', title: 'رسالتك' },
+    ],
+    reviewTitle: 'المراجعة والإرسال',
+    submitButton: {
+      label: 'إرسال الرسالة',
+    },
+    successMessage: 'شكرًا على رسالتك! سنرد عليك قريبًا.',
+    errorMessage: 'حدث خطأ ما. يرجى المحاولة لاحقًا.',
+    validationMessages: {
+      required: '{label} مطلوب',
+      minLength: 'يجب أن يحتوي {label} على {value} أحرف على الأقل',
+      maxLength: 'يجب أن يحتوي {label} على أقل من {value} حرفًا',
+      pattern: '{label} ليس بالتنسيق المتوقع',
+      email: 'يرجى إدخال بريد إلكتروني صالح',
+      phone: 'يرجى إدخال رقم هاتف صالح',
+      oneOf: 'يرجى اختيار قيمة صالحة لـ {label}',
+      maxFiles: 'يقبل {label} {value} ملفات كحد أقصى',
+      maxFileSize: 'يجب أن يكون كل ملف في {label} أصغر من {value}',
+      accept: 'يقبل {label} أنواع الملفات هذه فقط: {value}',
+    },
+    labels: {
+      progress: 'تقدّم النموذج',
+      stepCount: 'الخطوة {step} من {total}',
+      back: 'السابق',
+      next: 'التالي',
+      edit: 'تعديل',
+      editStep: 'تعديل {step}',
+      notProvided: 'غير محدد',
+      sending: 'جارٍ الإرسال...',
+      queued: 'تعذّر الوصول إلى الخادم، لذا حفظنا استفسارك. سيُرسل تلقائيًا عند عودة الاتصال.',
+      sendingQueued: 'جارٍ إرسال استفسارك المحفوظ...',
+      waitingOne: 'هناك استفسار بانتظار الإرسال.',
+      waitingMany: 'هناك {count} استفسارات بانتظار الإرسال.',
+      queueSent: 'أُرسل استفسارك المحفوظ.',
+      queueFailed: 'تعذّر إرسال استفسار محفوظ سابقًا: {error}',
+      dismiss: 'إخفاء',
+      tooFast: 'يرجى أخذ لحظة لمراجعة رسالتك، ثم أرسلها مرة أخرى.',
+      rateLimited: 'يرجى الانتظار {time} قبل الإرسال مرة أخرى.',
+      second: '{count} ثانية',
+      seconds: '{count} ثانية',
+      minutes: '{time} دقيقة',
+      draftSaved: 'لديك رسالة غير مرسلة من {date}.',
+      restoreDraft: 'استعادة المسودة',
+      discardDraft: 'تجاهل',
+      uploadProgress: 'تقدّم الرفع',
+      dropFiles: 'اسحب الملفات إلى هنا أو انقر لاختيارها',
+      removeFile: 'إزالة {name}',
+    },
+  },
+
+  footer: {
+    tagline: 'نبني حلولًا رقمية تصنع الفرق.',
+    links: [
+      { id: 'footer-home', label: 'الرئيسية' },
+      { id: 'footer-services', label: 'الخدمات' },
+      { id: 'footer-projects', label: 'المشاريع' },
+      { id: 'footer-contact', label: 'اتصل بنا' },
+    ],
+    copyrightText: '© {year} تريجي. جميع الحقوق محفوظة.',
+  },
+
+  labels: {
+    loading: 'جارٍ التحميل...',
+    notFoundTitle: 'الصفحة غير موجودة',
+    notFoundMessage: 'الصفحة التي تبحث عنها غير موجودة أو تم نقلها.',
+    backToHome: 'العودة إلى الرئيسية',
+  },
+};
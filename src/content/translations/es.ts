@@ -0,0 +1,238 @@
+/**
+ * Spanish Content
+ *
+ * Translation of defaultContent.ts. Fields left out here (and anything the
+ * CMS leaves out) are shown in the default locale. List items are matched to
+ * the default content by id.
+ */
+
+import type { ContentTranslation } from '../../types/content';
+
+export const esContent: ContentTranslation = {
+  metadata: {
+    title: 'Triji | Soluciones de software',
+    siteDescription: 'Triji - Tu socio de confianza en soluciones de software. Creamos soluciones digitales innovadoras que impulsan el crecimiento de tu negocio.',
+  },
+
+  navigation: {
+    links: [
+      { id: 'nav-home', label: 'Inicio' },
+      { id: 'nav-services', label: 'Servicios' },
+      { id: 'nav-projects', label: 'Proyectos' },
+      { id: 'nav-contact', label: 'Contacto' },
+    ],
+    ctaButton: {
+      label: 'Contáctanos',
+    },
+    localeSwitcherLabel: 'Idioma',
+    openMenuLabel: 'Abrir menú',
+    closeMenuLabel: 'Cerrar menú',
+  },
+
+  hero: {
+    tag: 'Grupo de Soluciones de Software',
+    title: 'Transformamos ideas en',
+    titleHighlight: ' realidad digital',
+    subtitle: 'Somos Triji: un equipo apasionado de desarrolladores, diseñadores e innovadores dedicado a crear soluciones de software que impulsan tu negocio.',
+    primaryButton: {
+      label: 'Empieza tu proyecto',
+    },
+    secondaryButton: {
+      label: 'Ver servicios',
+    },
+  },
+
+  services: {
+    sectionTag: 'Qué hacemos',
+    sectionTitle: 'Nuestros servicios',
+    sectionSubtitle: 'Soluciones de software completas, adaptadas a las necesidades de tu negocio',
+    services: [
+      {
+        id: 'service-web',
+        title: 'Desarrollo web',
+        description: 'Aplicaciones web a medida con tecnologías modernas como React, Vue y Node.js, escalables y de alto rendimiento.',
+      },
+      {
+        id: 'service-mobile',
+        title: 'Desarrollo móvil',
+        description: 'Apps nativas y multiplataforma para iOS y Android con una experiencia de usuario fluida.',
+      },
+      {
+        id: 'service-cloud',
+        title: 'Soluciones en la nube',
+        description: 'Arquitectura, migración y optimización en la nube para sacar el máximo partido a tu infraestructura.',
+      },
+      {
+        id: 'service-backend',
+        title: 'Sistemas backend',
+        description: 'Desarrollo de APIs, diseño de bases de datos y soluciones de servidor que dan vida a tus aplicaciones.',
+      },
+      {
+        id: 'service-design',
+        title: 'Diseño UI/UX',
+        description: 'Diseño centrado en las personas que une estética y funcionalidad en experiencias digitales intuitivas.',
+      },
+      {
+        id: 'service-security',
+        title: 'Seguridad y soporte',
+        description: 'Auditorías de seguridad y mantenimiento continuo para que tus sistemas estén protegidos y funcionen sin problemas.',
+      },
+    ],
+  },
+
+  projects: {
+    sectionTag: 'Nuestro trabajo',
+    sectionTitle: 'Proyectos destacados',
+    sectionSubtitle: 'Descubre nuestro portafolio de proyectos y soluciones digitales',
+    placeholderText: 'Próximamente',
+    searchPlaceholder: 'Buscar proyectos...',
+    noResultsText: 'Ningún proyecto coincide con tus filtros.',
+    labels: {
+      search: 'Buscar proyectos',
+      featuredOnly: 'Solo destacados',
+      clearFilters: 'Quitar filtros',
+      category: 'Categoría',
+      technology: 'Tecnología',
+      results: 'Mostrando {shown} de {total} proyectos',
+      pageNavigation: 'Páginas de proyectos',
+      previousPage: 'Anterior',
+      nextPage: 'Siguiente',
+      page: 'Página {page}',
+      loadMore: 'Cargar más proyectos',
+      loading: 'Cargando...',
+      pageError: 'No se pudieron cargar algunos proyectos. Inténtalo de nuevo.',
+      viewDetails: 'Ver detalles',
+      viewLive: 'Ver en vivo',
+      backToProjects: 'Volver a proyectos',
+      loadingProject: 'Cargando proyecto...',
+      projectError: 'No se pudo cargar este proyecto. Inténtalo de nuevo.',
+      tryAgain: 'Reintentar',
+      notFoundTitle: 'Proyecto no encontrado',
+      notFoundMessage: 'Este proyecto no existe o ya no está disponible.',
+      published: 'Publicado el {date}',
+      technologies: 'Tecnologías',
+      showImage: 'Mostrar imagen {index} de {total}',
+    },
+    projects: [
+      { id: 'project-alpha', category: 'Aplicación web', description: 'Una solución empresarial integral' },
+      { id: 'project-beta', category: 'App móvil', description: 'Experiencia móvil multiplataforma' },
+      { id: 'project-gamma', category: 'Plataforma en la nube', description: 'Infraestructura en la nube escalable' },
+    ],
+  },
+
+  contact: {
+    sectionTag: 'Contacto',
+    sectionTitle: 'Envíanos tu consulta',
+    sectionSubtitle: '¿Tienes un proyecto en mente? Nos encantaría conocerlo. Escríbenos y te responderemos lo antes posible.',
+    formFields: [
+      { id: 'field-name', label: 'Tu nombre', placeholder: 'Juan Pérez' },
+      { id: 'field-email', label: 'Correo electrónico', placeholder: 'juan@ejemplo.com' },
+      {
+        id: 'field-service',
+        label: 'Servicio de interés',
+        placeholder: 'Selecciona un servicio',
+        options: [
+          'Desarrollo web',
+          'Desarrollo móvil',
+          'Soluciones en la nube',
+          'Sistemas backend',
+          'Diseño UI/UX',
+          'Seguridad y soporte',
+          'Aún no lo sé',
+        ],
+      },
+      {
+        id: 'field-budget',
+        label: 'Presupuesto',
+        placeholder: 'Selecciona un rango',
+        options: ['Menos de $10k', '$10k - $25k', '$25k - $50k', '$50k - $100k', 'Más de $100k'],
+      },
+      {
+        id: 'field-timeline',
+        label: 'Plazo',
+        placeholder: 'Selecciona un plazo',
+        options: ['Lo antes posible', '1 - 3 meses', '3 - 6 meses', 'Más de 6 meses', 'Flexible'],
+      },
+      { id: 'field-subject', label: 'Asunto', placeholder: 'Consulta sobre un proyecto' },
+      { id: 'field-message', label: 'Mensaje', placeholder: 'Cuéntanos sobre tu proyecto...' },
+      {
+        id: 'field-attachments',
+        label: 'Archivos adjuntos',
+        placeholder: 'Arrastra aquí un brief o bocetos, o haz clic para buscarlos (PDF, imágenes, Word; hasta 10 MB cada uno)',
+      },
+    ],
+    steps: [
+      { id: 'step-contact', title: 'Tus datos', description: '¿Cómo podemos contactarte?' },
+      {
+        id: 'step-project',
+        title: 'Tu proyecto',
+        description: 'Cuéntanos qué necesitas para que te responda la persona adecuada.',
+      },
+      { id: 'step-message', title: 'Tu mensaje' },
+    ],
+    reviewTitle: 'Revisar y enviar',
+    submitButton: {
+      label: 'Enviar mensaje',
+    },
+    successMessage: '¡Gracias por tu mensaje! Te responderemos pronto.',
+    errorMessage: 'Algo salió mal. Inténtalo de nuevo más tarde.',
+    validationMessages: {
+      required: '{label} es obligatorio',
+      minLength: '{label} debe tener al menos {value} caracteres',
+      maxLength: '{label} debe tener menos de {value} caracteres',
+      pattern: '{label} no tiene el formato esperado',
+      email: 'Introduce un correo electrónico válido',
+      phone: 'Introduce un número de teléfono válido',
+      oneOf: 'Elige una opción válida para {label}',
+      maxFiles: '{label} admite como máximo {value} archivos',
+      maxFileSize: 'Cada archivo de {label} debe pesar menos de {value}',
+      accept: '{label} solo admite estos tipos de archivo: {value}',
+    },
+    labels: {
+      progress: 'Progreso del formulario',
+      stepCount: 'Paso {step} de {total}',
+      back: 'Atrás',
+      next: 'Siguiente',
+      edit: 'Editar',
+      editStep: 'Editar {step}',
+      notProvided: 'Sin indicar',
+      sending: 'Enviando...',
+      queued: 'No pudimos conectar con nuestro servidor, así que hemos guardado tu consulta. Se enviará automáticamente cuando vuelva la conexión.',
+      sendingQueued: 'Enviando tu consulta guardada...',
+      waitingOne: 'Hay una consulta pendiente de envío.',
+      waitingMany: 'Hay {count} consultas pendientes de envío.',
+      queueSent: 'Tu consulta guardada se ha enviado.',
+      queueFailed: 'No se pudo enviar una consulta guardada: {error}',
+      dismiss: 'Descartar',
+      tooFast: 'Tómate un momento para revisar tu mensaje y vuelve a enviarlo.',
+      rateLimited: 'Espera {time} antes de volver a enviar.',
+      second: '{count} segundo',
+      seconds: '{count} segundos',
+      minutes: '{time} minutos',
+      draftSaved: 'Tienes un mensaje sin enviar del {date}.',
+      restoreDraft: 'Recuperar borrador',
+      discardDraft: 'Descartar',
+      uploadProgress: 'Progreso de la subida',
+      dropFiles: 'Arrastra archivos aquí o haz clic para buscarlos',
+      removeFile: 'Quitar {name}',
+    },
+  },
+
+  footer: {
+    tagline: 'Creamos soluciones digitales que importan.',
+    links: [
+      { id: 'footer-home', label: 'Inicio' },
+      { id: 'footer-services', label: 'Servicios' },
+      { id: 'footer-projects', label: 'Proyectos' },
+      { id: 'footer-contact', label: 'Contacto' },
+    ],
+    copyrightText: '© {year} Triji. Todos los derechos reservados.',
+  },
+
+  labels: {
+    loading: 'Cargando...',
+    notFoundTitle: 'Página no encontrada',
+    notFoundMessage: 'La página que buscas no existe o se ha movido.',
+    backToHome: 'Volver al inicio',
+  },
+};
@@ -7,12 +7,26 @@
  * Usage:
  * 1. Wrap your app with ContentProvider
  * 2. Use useContentContext() hook in any component to access content
+ *
+ * The provider also holds the locale: detected from the visitor's stored
+ * choice or browser languages, switched with setLocale(), and reflected
+ * in the document's `lang` and `dir` attributes.
  */
 
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
-import type { SiteContent } from '../types/content';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import type { SiteContent, ContentStatus, LocaleCode, LocaleInfo, TextDirection } from '../types/content';
 import { contentService } from '../services/contentService';
-import { defaultSiteContent } from '../content/defaultContent';
+import { isAbortError } from '../services/errors';
+import {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  SUPPORTED_LOCALE_CODES,
+  applyLocaleAttributes,
+  getLocaleContent,
+  getLocaleDirection,
+  resolveLocale,
+} from '../content/locales';
+import { detectLocale, storeLocale } from '../utils/localePreference';
 
 // ============================================
 // CONTEXT TYPES
@@ -22,6 +36,20 @@ interface ContentContextState {
   content: SiteContent;
   loading: boolean;
   error: string | null;
+  /** Where `content` came from: the CMS, defaults (CMS disabled) or defaults after a failure */
+  status: ContentStatus;
+  /** The underlying error when status is 'error' */
+  errorCause: Error | null;
+  /** True when the page renders defaultContent.ts instead of CMS content */
+  showingDefaults: boolean;
+  /** Locale of the content */
+  locale: LocaleCode;
+  /** Writing direction of the locale */
+  direction: TextDirection;
+  /** Locales the visitor can switch to */
+  locales: LocaleInfo[];
+  /** Switch to another locale, remember the choice and load its content */
+  setLocale: (locale: LocaleCode) => void;
   refreshContent: () => Promise<void>;
 }
 
@@ -38,40 +66,169 @@ const ContentContext = createContext<ContentContextState | undefined>(undefined)
 interface ContentProviderProps {
   children: ReactNode;
   initialContent?: SiteContent;
+  /** Locale to start in (and of initialContent); detected when left out */
+  initialLocale?: LocaleCode;
+  /**
+   * initialContent was rendered at build time: after hydrating, switch to
+   * the visitor's locale and check the CMS for newer content
+   */
+  prerendered?: boolean;
+  /** Called when loading content from the CMS fails, e.g. to report to monitoring */
+  onContentError?: (error: Error) => void;
 }
 
-export function ContentProvider({ children, initialContent }: ContentProviderProps) {
-  const [content, setContent] = useState<SiteContent>(initialContent || defaultSiteContent);
-  const [loading, setLoading] = useState(!initialContent);
+export function ContentProvider({
+  children,
+  initialContent,
+  initialLocale,
+  prerendered = false,
+  onContentError,
+}: ContentProviderProps) {
+  const [locale, setLocaleState] = useState<LocaleCode>(() => initialLocale
+    ? resolveLocale(initialLocale)
+    : detectLocale(SUPPORTED_LOCALE_CODES, DEFAULT_LOCALE));
+  // Read by loadContent, so switching locale doesn't re-run the initial load
+  const localeRef = useRef(locale);
+  // Locale of `content`, which lags behind `locale` while switching
+  const contentLocaleRef = useRef(locale);
+  // Cached content (repeat visits) renders immediately and is revalidated below
+  const [cachedContent] = useState(() => initialContent ? null : contentService.getCachedSiteContent(locale));
+  const [content, setContent] = useState<SiteContent>(
+    () => initialContent || cachedContent || getLocaleContent(locale)
+  );
+  const [loading, setLoading] = useState(!initialContent && !cachedContent);
   const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<ContentStatus>(
+    initialContent || cachedContent ? 'ok' : 'fallback'
+  );
+  const [errorCause, setErrorCause] = useState<Error | null>(null);
+  const [showingDefaults, setShowingDefaults] = useState(!initialContent && !cachedContent);
+  const controllerRef = useRef<AbortController | null>(null);
+  const onErrorRef = useRef(onContentError);
 
-  const refreshContent = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    
+  useEffect(() => {
+    onErrorRef.current = onContentError;
+  }, [onContentError]);
+
+  const loadContent = useCallback(async () => {
+    // Only the latest request may update the content
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const locale = localeRef.current;
     try {
-      const newContent = await contentService.getSiteContent();
-      setContent(newContent);
+      const result = await contentService.getSiteContent({ signal: controller.signal, locale });
+      setStatus(result.status);
+
+      if (result.status === 'error') {
+        // Keep existing content on error, unless it is in another locale
+        if (contentLocaleRef.current !== locale) {
+          contentLocaleRef.current = locale;
+          setContent(result.data);
+          setShowingDefaults(true);
+        }
+        setError(result.error.message);
+        setErrorCause(result.error);
+        onErrorRef.current?.(result.error);
+        return;
+      }
+
+      contentLocaleRef.current = locale;
+      setContent(result.data);
+      setShowingDefaults(result.status === 'fallback');
+      setError(null);
+      setErrorCause(null);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Failed to fetch content:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch content');
       // Keep existing content on error
+    }
+  }, []);
+
+  const switchLocale = useCallback((code: LocaleCode) => {
+    // Keep showing the current content until the new locale's arrives
+    localeRef.current = code;
+    setLocaleState(code);
+    loadContent();
+  }, [loadContent]);
+
+  const setLocale = useCallback((next: LocaleCode) => {
+    const code = resolveLocale(next);
+    storeLocale(code);
+    if (code !== localeRef.current) switchLocale(code);
+  }, [switchLocale]);
+
+  const refreshContent = useCallback(async () => {
+    setLoading(true);
+    
+    try {
+      await loadContent();
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [loadContent]);
 
   // Fetch content on mount if no initial content provided
   useEffect(() => {
     if (!initialContent) {
-      refreshContent();
+      if (cachedContent) {
+        loadContent();
+      } else {
+        refreshContent();
+      }
+    } else if (prerendered) {
+      // The page was rendered in the default locale, with content from the build
+      const detected = detectLocale(SUPPORTED_LOCALE_CODES, DEFAULT_LOCALE);
+      if (detected !== localeRef.current) {
+        switchLocale(detected);
+      } else {
+        loadContent();
+      }
     }
-  }, [initialContent, refreshContent]);
+  }, [initialContent, cachedContent, prerendered, loadContent, refreshContent, switchLocale]);
+
+  // Abort the pending request on unmount
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const direction = getLocaleDirection(locale);
+
+  useEffect(() => {
+    applyLocaleAttributes(document.documentElement, locale);
+  }, [locale]);
+
+  // Share site content with useSiteContent(): reload when it is invalidated
+  // (e.g. revalidation found changes) and pick up results loaded elsewhere
+  useEffect(() => {
+    return contentService.subscribeToContent<SiteContent>({ resource: 'site', locale }, result => {
+      if (!result) {
+        loadContent();
+      } else if (result.status === 'ok') {
+        // Failures are handled (and reported) by the request that saw them
+        contentLocaleRef.current = locale;
+        setContent(result.data);
+        setStatus('ok');
+        setShowingDefaults(false);
+        setError(null);
+        setErrorCause(null);
+      }
+    });
+  }, [loadContent, locale]);
 
   const value: ContentContextState = {
     content,
     loading,
     error,
+    status,
+    errorCause,
+    showingDefaults,
+    locale,
+    direction,
+    locales: SUPPORTED_LOCALES,
+    setLocale,
     refreshContent,
   };
 
@@ -0,0 +1,14 @@
+/**
+ * Head Context
+ *
+ * Collects the document head while prerendering, where effects don't run,
+ * so the page can be written with its title and meta tags
+ * (see entry-server.ts). Not provided in the browser.
+ */
+
+import { createContext } from 'react';
+import type { DocumentHead } from '../utils/head';
+
+export type HeadCollector = (head: DocumentHead) => void;
+
+export const HeadContext = createContext<HeadCollector | null>(null);
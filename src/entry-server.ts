@@ -0,0 +1,113 @@
+/**
+ * Server Entry
+ *
+ * Renders the site to static HTML at build time (see
+ * prerender/prerenderPlugin.ts): the home page and every project page,
+ * each with its document head and the content it was rendered with,
+ * which main.tsx hydrates from. Invalid structured data nodes are left
+ * out of a page and reported.
+ *
+ * Content comes from the CMS when it is enabled, otherwise (or when the
+ * CMS can't be reached) from defaultContent.ts.
+ */
+
+import { StrictMode, createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import App from './App';
+import { HeadContext } from './context/HeadContext';
+import { contentService } from './services/contentService';
+import type { ContentRequest } from './services/adapters';
+import { DEFAULT_LOCALE, getLocaleDirection } from './content/locales';
+import type { ContentStatus, LocaleCode, SiteContent, TextDirection } from './types/content';
+import { renderDocumentHead, type DocumentHead } from './utils/head';
+import { serializeHydrationData } from './utils/hydration';
+import type { StructuredDataIssue } from './utils/structuredData';
+import { homePath, projectPath, setServerLocation } from './utils/router';
+
+export interface PrerenderedPage {
+  /** URL of the page, including the base path */
+  path: string;
+  /** App markup, for the root element */
+  html: string;
+  /** Title and meta tags, for the head */
+  head: string;
+  /** Hydration data script, for the end of the body */
+  data: string;
+  lang: LocaleCode;
+  dir: TextDirection;
+  /** Problems that kept JSON-LD nodes out of the page's head */
+  structuredDataIssues: StructuredDataIssue[];
+}
+
+export interface PrerenderResult {
+  pages: PrerenderedPage[];
+  /** Where the site content came from */
+  status: ContentStatus;
+  /** Why the CMS content could not be used, when status is 'error' */
+  error?: string;
+}
+
+function renderPage(
+  path: string,
+  content: SiteContent,
+  locale: LocaleCode,
+  requests: ContentRequest[]
+): PrerenderedPage {
+  setServerLocation(path);
+  const collected: { head?: DocumentHead } = {};
+
+  const html = renderToString(
+    createElement(
+      StrictMode,
+      null,
+      createElement(
+        HeadContext.Provider,
+        { value: head => { collected.head = head; } },
+        createElement(App, { initialContent: content, initialLocale: locale, prerendered: true })
+      )
+    )
+  );
+
+  return {
+    path,
+    html,
+    head: collected.head ? renderDocumentHead(collected.head) : '',
+    data: serializeHydrationData({
+      path,
+      locale,
+      content,
+      results: contentService.dehydrateContent(requests),
+    }),
+    lang: locale,
+    dir: getLocaleDirection(locale),
+    structuredDataIssues: collected.head?.structuredDataIssues ?? [],
+  };
+}
+
+/**
+ * Load the content and render every page
+ */
+export async function prerender(): Promise<PrerenderResult> {
+  // Routes have no locale, so pages are rendered in the default locale
+  const locale = DEFAULT_LOCALE;
+  const site = await contentService.getSiteContent({ locale });
+  const content = site.data;
+
+  // The CMS may list projects that aren't in the projects section
+  const projects = await contentService.getProjects({ locale });
+  const slugs = new Set([...content.projects.projects, ...projects.data].map(project => project.slug));
+
+  const pages = [renderPage(homePath(), content, locale, [])];
+
+  for (const slug of slugs) {
+    // Loads the full entry into the shared results the page renders from
+    await contentService.getProjectBySlug(slug, { locale });
+    pages.push(renderPage(projectPath(slug), content, locale, [{ resource: 'project', slug, locale }]));
+  }
+
+  return {
+    pages,
+    status: site.status,
+    error: site.status === 'error' ? site.error.message : undefined,
+  };
+}
@@ -6,7 +6,7 @@
  * with loading states and error handling.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type {
   SiteContent,
   NavigationContent,
@@ -17,8 +17,20 @@ import type {
   FooterContent,
   Project,
   Service,
+  ContentResult,
+  ContentStatus,
+  PaginatedResponse,
+  ProjectsPagination,
+  InquiryFields,
+  InquiryFiles,
+  InquirySpamCheck,
+  LocaleCode,
 } from '../types/content';
 import { contentService } from '../services/contentService';
+import type { ContentRequest } from '../services/adapters';
+import { isAbortError } from '../services/errors';
+import { buildInquiry } from '../utils/inquiry';
+import { paginate } from '../utils/pagination';
 
 // ============================================
 // GENERIC CONTENT HOOK
@@ -28,35 +40,107 @@ interface UseContentResult<T> {
   data: T | null;
   loading: boolean;
   error: string | null;
+  /** Where `data` came from; null until the first request settles */
+  status: ContentStatus | null;
+  /** The underlying error when status is 'error' */
+  errorCause: Error | null;
   refetch: () => Promise<void>;
 }
 
+interface UseContentOptions {
+  /** Fetch only while true (default true) */
+  enabled?: boolean;
+  /** Locale of the content (default: the default locale); refetches when it changes */
+  locale?: LocaleCode;
+}
+
+/**
+ * Read a content request through the shared query cache.
+ * Hooks reading the same request share one fetch and one result, and
+ * re-render when it is updated or invalidated elsewhere.
+ *
+ * @param request Identifies the content; the hook refetches when it changes
+ * @param fetchFn Getter for the request; may be a new function every render
+ * @param options.enabled Set to false to skip fetching until the content is needed
+ */
 function useContent<T>(
-  fetchFn: () => Promise<T>,
-  deps: unknown[] = []
+  request: ContentRequest,
+  fetchFn: (signal: AbortSignal) => Promise<ContentResult<T>>,
+  { enabled = true }: Pick<UseContentOptions, 'enabled'> = {}
 ): UseContentResult<T> {
-  const [data, setData] = useState<T | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const key = contentService.getContentKey(request);
+  const [shared] = useState(() => contentService.peekContent<T>(request));
+  const [data, setData] = useState<T | null>(shared?.data ?? null);
+  const [loading, setLoading] = useState(enabled && !shared);
+  const [error, setError] = useState<string | null>(
+    shared?.status === 'error' ? shared.error.message : null
+  );
+  const [status, setStatus] = useState<ContentStatus | null>(shared?.status ?? null);
+  const [errorCause, setErrorCause] = useState<Error | null>(
+    shared?.status === 'error' ? shared.error : null
+  );
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Keep the latest request and getter without making them dependencies;
+  // the key changes whenever the request does
+  const requestRef = useRef(request);
+  const fetchFnRef = useRef(fetchFn);
+  useEffect(() => {
+    requestRef.current = request;
+    fetchFnRef.current = fetchFn;
+  });
+
+  const applyResult = useCallback((result: ContentResult<T>) => {
+    // Failed requests still carry fallback data to render
+    setData(result.data);
+    setStatus(result.status);
+    setError(result.status === 'error' ? result.error.message : null);
+    setErrorCause(result.status === 'error' ? result.error : null);
+  }, []);
 
   const fetchData = useCallback(async () => {
+    // Cancel the previous request before starting a new one
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setLoading(true);
-    setError(null);
     try {
-      const result = await fetchFn();
-      setData(result);
+      applyResult(await fetchFnRef.current(controller.signal));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch content');
+      if (isAbortError(err)) return;
+      const cause = err instanceof Error ? err : new Error('Failed to fetch content');
+      setStatus('error');
+      setError(cause.message);
+      setErrorCause(cause);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
-  }, [fetchFn, ...deps]);
+  }, [applyResult]);
+
+  useEffect(() => {
+    if (enabled) fetchData();
+  }, [key, enabled, fetchData]);
+
+  // Follow results loaded by other readers, and reload when invalidated
+  useEffect(() => {
+    if (!enabled) return;
 
+    return contentService.subscribeToContent<T>(requestRef.current, result => {
+      if (result) {
+        applyResult(result);
+      } else {
+        fetchData();
+      }
+    });
+  }, [key, enabled, applyResult, fetchData]);
+
+  // Abort the pending request on unmount
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+    return () => controllerRef.current?.abort();
+  }, []);
 
-  return { data, loading, error, refetch: fetchData };
+  return { data, loading, error, status, errorCause, refetch: fetchData };
 }
 
 // ============================================
@@ -66,125 +150,372 @@ function useContent<T>(
 /**
  * Hook to fetch all site content
  */
-export function useSiteContent(): UseContentResult<SiteContent> {
-  return useContent(() => contentService.getSiteContent());
+export function useSiteContent(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<SiteContent> {
+  return useContent(
+    { resource: 'site', locale },
+    signal => contentService.getSiteContent({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch navigation content
  */
-export function useNavigation(): UseContentResult<NavigationContent> {
-  return useContent(() => contentService.getNavigation());
+export function useNavigation(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<NavigationContent> {
+  return useContent(
+    { resource: 'section', section: 'navigation', locale },
+    signal => contentService.getNavigation({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch hero content
  */
-export function useHeroContent(): UseContentResult<HeroContent> {
-  return useContent(() => contentService.getHeroContent());
+export function useHeroContent(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<HeroContent> {
+  return useContent(
+    { resource: 'section', section: 'hero', locale },
+    signal => contentService.getHeroContent({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch services section content
  */
-export function useServicesContent(): UseContentResult<ServicesContent> {
-  return useContent(() => contentService.getServicesContent());
+export function useServicesContent(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<ServicesContent> {
+  return useContent(
+    { resource: 'section', section: 'services', locale },
+    signal => contentService.getServicesContent({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch all services
  */
-export function useServices(): UseContentResult<Service[]> {
-  return useContent(() => contentService.getServices());
+export function useServices(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<Service[]> {
+  return useContent(
+    { resource: 'services', locale },
+    signal => contentService.getServices({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch a single service by ID
  */
-export function useService(id: string): UseContentResult<Service | null> {
-  return useContent(() => contentService.getServiceById(id), [id]);
+export function useService(
+  id: string,
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<Service | null> {
+  return useContent(
+    { resource: 'service', id, locale },
+    signal => contentService.getServiceById(id, { signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch projects section content
  */
-export function useProjectsContent(): UseContentResult<ProjectsContent> {
-  return useContent(() => contentService.getProjectsContent());
+export function useProjectsContent(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<ProjectsContent> {
+  return useContent(
+    { resource: 'section', section: 'projects', locale },
+    signal => contentService.getProjectsContent({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch all projects
  */
-export function useProjects(): UseContentResult<Project[]> {
-  return useContent(() => contentService.getProjects());
+export function useProjects(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<Project[]> {
+  return useContent(
+    { resource: 'projects', locale },
+    signal => contentService.getProjects({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch featured projects
  */
-export function useFeaturedProjects(): UseContentResult<Project[]> {
-  return useContent(() => contentService.getFeaturedProjects());
+export function useFeaturedProjects(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<Project[]> {
+  return useContent(
+    { resource: 'projects', featured: true, locale },
+    signal => contentService.getFeaturedProjects({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch a single project by slug
  */
-export function useProject(slug: string): UseContentResult<Project | null> {
-  return useContent(() => contentService.getProjectBySlug(slug), [slug]);
+export function useProject(
+  slug: string,
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<Project | null> {
+  return useContent(
+    { resource: 'project', slug, locale },
+    signal => contentService.getProjectBySlug(slug, { signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch contact section content
  */
-export function useContactContent(): UseContentResult<ContactContent> {
-  return useContent(() => contentService.getContactContent());
+export function useContactContent(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<ContactContent> {
+  return useContent(
+    { resource: 'section', section: 'contact', locale },
+    signal => contentService.getContactContent({ signal, locale }),
+    options
+  );
 }
 
 /**
  * Hook to fetch footer content
  */
-export function useFooterContent(): UseContentResult<FooterContent> {
-  return useContent(() => contentService.getFooterContent());
+export function useFooterContent(
+  { locale, ...options }: UseContentOptions = {}
+): UseContentResult<FooterContent> {
+  return useContent(
+    { resource: 'section', section: 'footer', locale },
+    signal => contentService.getFooterContent({ signal, locale }),
+    options
+  );
+}
+
+// ============================================
+// PAGINATED PROJECTS HOOK
+// ============================================
+
+interface UseProjectsPaginatedOptions {
+  pageSize?: number;
+  /** 'pages' shows one page at a time; the other modes append pages */
+  mode?: ProjectsPagination['mode'];
+  /** Fetch only while true (default true) */
+  enabled?: boolean;
+  /** Locale of the projects; starts over from the first page when it changes */
+  locale?: LocaleCode;
+  /**
+   * Projects in display order to page through when a page fails to load,
+   * e.g. the CMS projects ContentProvider already has (default: the
+   * built-in default projects)
+   */
+  fallbackProjects?: Project[];
+}
+
+interface UseProjectsPaginatedResult {
+  /** Projects on the current page, or every page loaded so far when appending */
+  projects: Project[];
+  /** Last page loaded (0 before the first page arrives) */
+  page: number;
+  totalPages: number;
+  totalItems: number;
+  hasMore: boolean;
+  loading: boolean;
+  error: string | null;
+  status: ContentStatus | null;
+  errorCause: Error | null;
+  goToPage: (page: number) => Promise<void>;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Hook to page through projects with getProjectsPaginated.
+ * Starts over from the first page when the page size, mode or locale changes.
+ */
+export function useProjectsPaginated({
+  pageSize = 10,
+  mode = 'pages',
+  enabled = true,
+  locale,
+  fallbackProjects,
+}: UseProjectsPaginatedOptions = {}): UseProjectsPaginatedResult {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse<Project>['pagination'] | null>(null);
+  const [loading, setLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<ContentStatus | null>(null);
+  const [errorCause, setErrorCause] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const appendPages = mode !== 'pages';
+
+  // Keep the latest fallback without starting over when it changes
+  const fallbackRef = useRef(fallbackProjects);
+  useEffect(() => {
+    fallbackRef.current = fallbackProjects;
+  });
+
+  const loadPage = useCallback(async (page: number, append: boolean) => {
+    // Only the latest page request may update the list
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setLoading(true);
+    try {
+      const result = await contentService.getProjectsPaginated(page, pageSize, {
+        signal: controller.signal,
+        locale,
+      });
+      setStatus(result.status);
+      setError(result.status === 'error' ? result.error.message : null);
+      setErrorCause(result.status === 'error' ? result.error : null);
+
+      // Don't mix fallback projects into pages already loaded from the CMS
+      if (result.status === 'error' && append) return;
+
+      const { data, pagination: nextPagination } = result.status === 'error' && fallbackRef.current
+        ? paginate(fallbackRef.current, page, pageSize)
+        : result.data;
+      setProjects(previous => append
+        ? [...previous, ...data.filter(project => !previous.some(p => p.id === project.id))]
+        : data);
+      setPagination(nextPagination);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const cause = err instanceof Error ? err : new Error('Failed to fetch projects');
+      setStatus('error');
+      setError(cause.message);
+      setErrorCause(cause);
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [pageSize, locale]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    setProjects([]);
+    setPagination(null);
+    loadPage(1, false);
+  }, [enabled, appendPages, loadPage]);
+
+  // Abort the pending request on unmount
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const page = pagination?.page ?? 0;
+  const totalPages = pagination?.totalPages ?? 0;
+  const hasMore = page < totalPages;
+
+  const goToPage = useCallback(
+    (target: number) => loadPage(target, false),
+    [loadPage]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (loading || !hasMore) return;
+    await loadPage(page + 1, appendPages);
+  }, [loading, hasMore, page, appendPages, loadPage]);
+
+  return {
+    projects,
+    page,
+    totalPages,
+    totalItems: pagination?.totalItems ?? 0,
+    hasMore,
+    loading,
+    error,
+    status,
+    errorCause,
+    goToPage,
+    loadMore,
+  };
 }
 
 // ============================================
 // INQUIRY SUBMISSION HOOK
 // ============================================
 
+interface UseInquirySubmitOptions {
+  /**
+   * Called when the server asks to wait before sending again: its
+   * Retry-After, or DEFAULT_RETRY_AFTER_MS for a 429 without one
+   */
+  onRetryAfter?: (retryAfterMs: number) => void;
+}
+
+// Wait after a 429 that doesn't say how long to wait
+const DEFAULT_RETRY_AFTER_MS = 60000;
+
 interface UseInquirySubmitResult {
-  submit: (data: {
-    name: string;
-    email: string;
-    subject: string;
-    message: string;
-  }) => Promise<boolean>;
+  /** Submit form values and files keyed by FormField.name */
+  submit: (values: InquiryFields, files?: InquiryFiles, spamCheck?: InquirySpamCheck) => Promise<boolean>;
   loading: boolean;
+  /** Share of the files uploaded (0-1) while an inquiry with files is sent */
+  uploadProgress: number | null;
   error: string | null;
   success: boolean;
+  /** The inquiry couldn't be sent yet and was queued to be resent */
+  queued: boolean;
   reset: () => void;
 }
 
-export function useInquirySubmit(): UseInquirySubmitResult {
+export function useInquirySubmit(
+  { onRetryAfter }: UseInquirySubmitOptions = {}
+): UseInquirySubmitResult {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [queued, setQueued] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  const submit = async (
+    values: InquiryFields,
+    files: InquiryFiles = {},
+    spamCheck?: InquirySpamCheck
+  ): Promise<boolean> => {
+    const hasFiles = Object.values(files).some(fieldFiles => fieldFiles.length > 0);
 
-  const submit = async (data: {
-    name: string;
-    email: string;
-    subject: string;
-    message: string;
-  }): Promise<boolean> => {
     setLoading(true);
     setError(null);
     setSuccess(false);
+    setQueued(false);
+    setUploadProgress(hasFiles ? 0 : null);
 
     try {
-      const result = await contentService.submitInquiry(data);
+      const inquiry = { ...buildInquiry(values, files), spamCheck };
+      const result = await contentService.submitInquiry(inquiry, {
+        files,
+        onUploadProgress: hasFiles
+          ? ({ loaded, total }) => setUploadProgress(total > 0 ? loaded / total : 0)
+          : undefined,
+      });
+      if (result.retryAfterMs !== undefined || result.rateLimited) {
+        onRetryAfter?.(result.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS);
+      }
+
       if (result.success) {
         setSuccess(true);
         return true;
+      } else if (result.queued) {
+        setQueued(true);
+        return true;
       } else {
+        // Includes inquiries refused as rate limited (429)
         setError(result.error || 'Failed to submit inquiry');
         return false;
       }
@@ -193,13 +524,15 @@ export function useInquirySubmit(): UseInquirySubmitResult {
       return false;
     } finally {
       setLoading(false);
+      setUploadProgress(null);
     }
   };
 
   const reset = () => {
     setError(null);
     setSuccess(false);
+    setQueued(false);
   };
 
-  return { submit, loading, error, success, reset };
+  return { submit, loading, uploadProgress, error, success, queued, reset };
 }
@@ -0,0 +1,72 @@
+/**
+ * Document Head Hook
+ *
+ * Keeps the document head (title, description, Open Graph/Twitter tags,
+ * canonical URL, favicon, JSON-LD structured data) in sync with the site
+ * content, the locale and the current path. See utils/head.ts and
+ * utils/structuredData.ts.
+ */
+
+import { useContext, useEffect, useMemo } from 'react';
+import { useContentContext } from '../context/ContentContext';
+import { HeadContext } from '../context/HeadContext';
+import { getDocumentHead, applyDocumentHead, type DocumentHead, type PageHead } from '../utils/head';
+import { getStructuredData, removeInvalidNodes } from '../utils/structuredData';
+import { useLocation, useRoute } from './useRoute';
+
+interface UseDocumentHeadOptions {
+  /**
+   * Set to false in components that leave the head to a child page,
+   * so only one component manages it at a time
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Apply the head for the current page
+ *
+ * @param page Overrides for this page (title, description, image, ...)
+ *
+ * @example
+ * useDocumentHead({ title: project.title, description: project.shortDescription, type: 'article' });
+ */
+export function useDocumentHead(page: PageHead = {}, options: UseDocumentHeadOptions = {}): void {
+  const { enabled = true } = options;
+  const { content, locale } = useContentContext();
+  const collectHead = useContext(HeadContext);
+  const { pathname } = useLocation();
+  const home = useRoute().name === 'home';
+  const { title, description, image, type, noIndex, project } = page;
+
+  const head = useMemo((): DocumentHead => {
+    const origin = typeof window === 'undefined' ? '' : window.location.origin;
+    // Invalid JSON-LD nodes are left out rather than published
+    const { data: structuredData, issues: structuredDataIssues } = removeInvalidNodes(
+      getStructuredData(content, { origin, locale, home, project })
+    );
+
+    return {
+      ...getDocumentHead(
+        content.metadata,
+        { title, description, image, type, noIndex },
+        { path: pathname, origin, locale }
+      ),
+      structuredData,
+      structuredDataIssues,
+    };
+  }, [content, title, description, image, type, noIndex, project, pathname, locale, home]);
+
+  // Effects don't run when prerendering, so hand the head over instead
+  if (enabled && collectHead) collectHead(head);
+
+  useEffect(() => {
+    if (!enabled) return;
+    applyDocumentHead(head);
+
+    if (import.meta.env.DEV && head.structuredDataIssues?.length) {
+      console.warn('Invalid structured data nodes were left out of this page:', head.structuredDataIssues);
+    }
+  }, [head, enabled]);
+}
+
+export default useDocumentHead;
@@ -0,0 +1,119 @@
+/**
+ * Form Draft Hook
+ *
+ * Autosaves form values as a draft (utils/formDraft.ts) and offers a draft
+ * left by a previous visit, so the form can prompt to restore or discard it.
+ * The saved draft is read once hydrated, so prerendered pages hydrate
+ * without it and show the prompt right after.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FormField, InquiryFields } from '../types/content';
+import {
+  clearDraft,
+  getDraftKey,
+  readDraft,
+  writeDraft,
+  type FormDraft,
+} from '../utils/formDraft';
+import { useHydrated } from './useHydrated';
+
+interface UseFormDraftOptions {
+  /** Drafts older than this (ms) are discarded */
+  maxAgeMs?: number;
+  /** Delay (ms) after the last change before saving */
+  saveDelayMs?: number;
+}
+
+interface UseFormDraftResult {
+  /** Draft from a previous visit, until it is restored or discarded */
+  savedDraft: FormDraft | null;
+  /** Accept the saved draft; returns its values for the form's known fields */
+  restoreDraft: () => InquiryFields;
+  /** Delete the saved draft */
+  discardDraft: () => void;
+  /** Delete the current draft, e.g. after a successful submission */
+  clearDraft: () => void;
+}
+
+/**
+ * Hook for saving form values as a draft
+ *
+ * @example
+ * const { savedDraft, restoreDraft, discardDraft, clearDraft } = useFormDraft(
+ *   'contact', content.formFields, formData, { maxAgeMs: 7 * 24 * 60 * 60 * 1000 }
+ * );
+ */
+export function useFormDraft(
+  formId: string,
+  fields: FormField[],
+  values: InquiryFields,
+  { maxAgeMs = 7 * 24 * 60 * 60 * 1000, saveDelayMs = 500 }: UseFormDraftOptions = {}
+): UseFormDraftResult {
+  const key = getDraftKey(formId, fields);
+  const hydrated = useHydrated();
+
+  // Read the saved draft once hydrated, and again per form definition
+  const readKey = hydrated ? key : null;
+  const [saved, setSaved] = useState(() => ({
+    key: readKey,
+    draft: readKey ? readDraft(readKey, maxAgeMs) : null,
+  }));
+  if (saved.key !== readKey) {
+    setSaved({ key: readKey, draft: readKey ? readDraft(readKey, maxAgeMs) : null });
+  }
+  const savedDraft = saved.key === key ? saved.draft : null;
+
+  // Until the saved draft is read, and then restored or discarded, don't overwrite it
+  const autosave = hydrated && savedDraft === null;
+
+  const valuesRef = useRef(values);
+  useEffect(() => {
+    valuesRef.current = values;
+  });
+
+  useEffect(() => {
+    if (!autosave) return;
+
+    const timer = setTimeout(() => writeDraft(key, values), saveDelayMs);
+    return () => clearTimeout(timer);
+  }, [key, values, autosave, saveDelayMs]);
+
+  // Save pending changes immediately when the page is being unloaded
+  useEffect(() => {
+    if (!autosave) return;
+
+    const handlePageHide = () => writeDraft(key, valuesRef.current);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [key, autosave]);
+
+  const restoreDraft = useCallback((): InquiryFields => {
+    const restored: InquiryFields = {};
+    fields.forEach(field => {
+      const value = savedDraft?.values[field.name];
+      if (typeof value === 'string') restored[field.name] = value;
+    });
+
+    setSaved({ key, draft: null });
+    return restored;
+  }, [fields, key, savedDraft]);
+
+  const discardDraft = useCallback(() => {
+    clearDraft(key);
+    setSaved({ key, draft: null });
+  }, [key]);
+
+  const clearCurrentDraft = useCallback(() => {
+    clearDraft(key);
+  }, [key]);
+
+  return {
+    savedDraft,
+    restoreDraft,
+    discardDraft,
+    clearDraft: clearCurrentDraft,
+  };
+}
+
+export default useFormDraft;
@@ -0,0 +1,19 @@
+/**
+ * Hydrated Hook
+ *
+ * Tells whether the component renders in the browser after hydration.
+ * False when prerendering and while a prerendered page is hydrated, so
+ * anything read from browser storage or the DOM can wait until then
+ * without the first render differing from the server's HTML.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+// Nothing to subscribe to: the snapshot only differs between server and browser
+const subscribeToNothing = () => () => {};
+
+export function useHydrated(): boolean {
+  return useSyncExternalStore(subscribeToNothing, () => true, () => false);
+}
+
+export default useHydrated;
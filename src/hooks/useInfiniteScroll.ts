@@ -0,0 +1,43 @@
+/**
+ * Infinite Scroll Hook
+ *
+ * Calls a function when a sentinel element scrolls into view, using
+ * IntersectionObserver. Used to load the next page of projects.
+ */
+
+import { useEffect, useRef, type RefObject } from 'react';
+
+interface UseInfiniteScrollOptions {
+  /** Observe only while true, e.g. while more items exist and none are loading */
+  enabled?: boolean;
+  /** Distance before the sentinel becomes visible at which to trigger */
+  rootMargin?: string;
+}
+
+export function useInfiniteScroll(
+  sentinelRef: RefObject<Element | null>,
+  onReach: () => void,
+  { enabled = true, rootMargin = '200px' }: UseInfiniteScrollOptions = {}
+): void {
+  // Keep the latest callback without re-creating the observer
+  const onReachRef = useRef(onReach);
+  useEffect(() => {
+    onReachRef.current = onReach;
+  });
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    // Observing reports the current state, so re-enabling after a page loads
+    // triggers again if the sentinel is still in view
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onReachRef.current();
+      }
+    }, { rootMargin });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinelRef, enabled, rootMargin]);
+}
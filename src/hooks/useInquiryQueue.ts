@@ -0,0 +1,75 @@
+/**
+ * Inquiry Queue Hook
+ *
+ * Follows inquiries queued while offline (services/inquiryQueue.ts) and
+ * resends them when the page loads and whenever the browser comes back
+ * online. Inquiries the server rate limited are resent once the time it
+ * asked for (Retry-After) has passed.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { contentService } from '../services/contentService';
+import type { QueuedInquiry } from '../services/inquiryQueue';
+
+interface UseInquiryQueueResult {
+  /** Queued inquiries, oldest first */
+  entries: QueuedInquiry[];
+  /** Resend queued inquiries now */
+  resend: () => Promise<void>;
+  /** Remove a queued inquiry without sending it */
+  discard: (key: string) => Promise<void>;
+}
+
+export function useInquiryQueue(): UseInquiryQueueResult {
+  const [entries, setEntries] = useState<QueuedInquiry[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    let updated = false;
+    const unsubscribe = contentService.subscribeToInquiryQueue(next => {
+      updated = true;
+      if (active) setEntries(next);
+    });
+
+    // Skipped if an update arrived first, as it is more recent
+    contentService.getQueuedInquiries().then(initial => {
+      if (active && !updated) setEntries(initial);
+    });
+
+    // Inquiries queued on a previous visit are resent right away
+    contentService.resendQueuedInquiries();
+
+    const handleOnline = () => {
+      contentService.resendQueuedInquiries();
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      active = false;
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  // Resend when the first rate-limited inquiry may be sent again
+  const retryAt = Math.min(
+    ...entries
+      .filter(entry => entry.status === 'pending' && entry.retryAt !== undefined)
+      .map(entry => entry.retryAt as number)
+  );
+  useEffect(() => {
+    if (!Number.isFinite(retryAt)) return;
+
+    const timer = setTimeout(() => {
+      contentService.resendQueuedInquiries();
+    }, Math.max(retryAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [retryAt]);
+
+  const resend = useCallback(() => contentService.resendQueuedInquiries(), []);
+  const discard = useCallback((key: string) => contentService.discardQueuedInquiry(key), []);
+
+  return { entries, resend, discard };
+}
+
+export default useInquiryQueue;
@@ -0,0 +1,46 @@
+/**
+ * Project Filter Hook
+ *
+ * Keeps the Projects section filters in the URL query string, so filtered
+ * views can be shared and survive reloads and back/forward navigation.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { navigate } from '../utils/router';
+import {
+  emptyProjectFilters,
+  parseProjectFilters,
+  serializeProjectFilters,
+  type ProjectFilters,
+} from '../utils/projectFilters';
+import { useLocation } from './useRoute';
+
+interface UseProjectFiltersResult {
+  filters: ProjectFilters;
+  /** Update some filters, keeping the others */
+  setFilters: (update: Partial<ProjectFilters>) => void;
+  clearFilters: () => void;
+}
+
+export function useProjectFilters(): UseProjectFiltersResult {
+  const location = useLocation();
+  const filters = useMemo(() => parseProjectFilters(location.search), [location.search]);
+
+  const replaceFilters = useCallback((next: ProjectFilters) => {
+    // Read the live URL, so consecutive updates build on each other
+    const { pathname, search, hash } = window.location;
+
+    // Replace rather than push, so typing a search doesn't flood the history
+    navigate(`${pathname}${serializeProjectFilters(next, search)}${hash}`, { replace: true });
+  }, []);
+
+  const setFilters = useCallback((update: Partial<ProjectFilters>) => {
+    replaceFilters({ ...parseProjectFilters(window.location.search), ...update });
+  }, [replaceFilters]);
+
+  const clearFilters = useCallback(() => {
+    replaceFilters(emptyProjectFilters);
+  }, [replaceFilters]);
+
+  return { filters, setFilters, clearFilters };
+}
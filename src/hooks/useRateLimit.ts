@@ -1,17 +1,42 @@
 /**
  * Rate Limiting Hook
- * 
- * Provides client-side rate limiting for form submissions.
+ *
+ * Provides client-side rate limiting for form submissions: at most
+ * `maxSubmits` submissions in any `limitMs` window, plus blocks requested by
+ * the server (429 Retry-After). The countdown re-renders as time passes.
+ * Stored submissions are read once hydrated, so prerendered pages hydrate
+ * with the form enabled and show the countdown right after.
  * Note: Always implement server-side rate limiting as well.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  EMPTY_RATE_LIMIT,
+  addBlock,
+  addSubmit,
+  getNextAllowedAt,
+  mergeRateLimit,
+  parseRateLimit,
+  pruneRateLimit,
+  readRateLimit,
+  toRateLimitState,
+  writeRateLimit,
+  type RateLimitState,
+  type RateLimitStorage,
+} from '../utils/rateLimit';
+import { useHydrated } from './useHydrated';
 
 interface UseRateLimitOptions {
-  /** Time in milliseconds between allowed submissions */
+  /** Length of the sliding window in milliseconds */
   limitMs?: number;
+  /** Submissions allowed in any window (default 1) */
+  maxSubmits?: number;
   /** Storage key for persisting rate limit across page refreshes */
   storageKey?: string;
+  /** sessionStorage (default) limits this tab; localStorage limits every tab */
+  storage?: RateLimitStorage;
+  /** Share submissions with other open tabs as they happen (BroadcastChannel) */
+  syncTabs?: boolean;
 }
 
 interface UseRateLimitResult {
@@ -19,84 +44,151 @@ interface UseRateLimitResult {
   canSubmit: () => boolean;
   /** Record a submission (call after successful submit) */
   recordSubmit: () => void;
+  /** Block submissions for a while, e.g. for a server's Retry-After */
+  blockFor: (ms: number) => void;
   /** Get remaining seconds until next allowed submission */
   timeRemaining: () => number;
-  /** Check if currently rate limited */
+  /** Remaining seconds, updated every second while rate limited */
+  secondsRemaining: number;
+  /** Submissions left in the current window */
+  remainingSubmits: number;
+  /** Check if currently rate limited (updates when the limit ends) */
   isRateLimited: boolean;
 }
 
+const TICK_MS = 1000;
+
 /**
  * Hook for client-side rate limiting
- * 
+ *
  * @param options Configuration options
  * @returns Rate limiting utilities
- * 
+ *
  * @example
- * const { canSubmit, recordSubmit, timeRemaining, isRateLimited } = useRateLimit({
- *   limitMs: 60000, // 1 minute
- *   storageKey: 'inquiry_rate_limit'
+ * const { canSubmit, recordSubmit, secondsRemaining, isRateLimited } = useRateLimit({
+ *   limitMs: 600000, // 10 minutes
+ *   maxSubmits: 3,
+ *   storageKey: 'inquiry_rate_limit',
+ *   storage: 'local',
+ *   syncTabs: true,
  * });
- * 
+ *
  * const handleSubmit = async () => {
- *   if (!canSubmit()) {
- *     alert(`Please wait ${timeRemaining()} seconds`);
- *     return;
- *   }
+ *   if (!canSubmit()) return;
  *   await submitForm();
  *   recordSubmit();
  * };
  */
 export function useRateLimit(options: UseRateLimitOptions = {}): UseRateLimitResult {
-  const { 
+  const {
     limitMs = 60000, // Default: 1 minute
-    storageKey = 'form_rate_limit' 
+    maxSubmits = 1,
+    storageKey = 'form_rate_limit',
+    storage = 'session',
+    syncTabs = false,
   } = options;
 
-  // Try to get last submit time from sessionStorage
-  const getStoredTimestamp = (): number => {
-    if (typeof window === 'undefined') return 0;
-    try {
-      const stored = sessionStorage.getItem(storageKey);
-      return stored ? parseInt(stored, 10) : 0;
-    } catch {
-      return 0;
+  // Read the stored state once hydrated
+  const hydrated = useHydrated();
+  const [state, setState] = useState<RateLimitState>(
+    () => (hydrated ? readRateLimit(storage, storageKey) : EMPTY_RATE_LIMIT)
+  );
+  // Whether the stored state has been read
+  const [loaded, setLoaded] = useState(hydrated);
+  if (hydrated && !loaded) {
+    setLoaded(true);
+    setState(current => mergeRateLimit(current, readRateLimit(storage, storageKey)));
+  }
+  // Current time as of the last tick, so the countdown re-renders
+  const [now, setNow] = useState(Date.now);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  // Follow submissions made in other tabs
+  useEffect(() => {
+    const receive = (incoming: RateLimitState) => {
+      // sessionStorage is per tab, so keep what other tabs report
+      if (storage === 'session') {
+        writeRateLimit(storage, storageKey, mergeRateLimit(readRateLimit(storage, storageKey), incoming));
+      }
+      setState(current => mergeRateLimit(current, incoming));
+      setNow(Date.now());
+    };
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) receive(parseRateLimit(event.newValue));
+    };
+    if (storage === 'local') {
+      window.addEventListener('storage', handleStorage);
     }
-  };
 
-  const [lastSubmit, setLastSubmit] = useState<number>(getStoredTimestamp);
+    let channel: BroadcastChannel | null = null;
+    if (syncTabs && typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(storageKey);
+      channel.onmessage = (event: MessageEvent) => receive(toRateLimitState(event.data));
+      channelRef.current = channel;
+    }
+
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [storage, storageKey, syncTabs]);
+
+  const nextAllowedAt = getNextAllowedAt(state, limitMs, maxSubmits, now);
+
+  // Tick once per second of the countdown until submitting is allowed again
+  useEffect(() => {
+    const wait = nextAllowedAt - now;
+    if (wait <= 0) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), wait % TICK_MS || TICK_MS);
+    return () => clearTimeout(timer);
+  }, [nextAllowedAt, now]);
+
+  // Include changes other tabs stored but have not reported yet
+  const getCurrentState = useCallback(
+    (): RateLimitState => mergeRateLimit(state, readRateLimit(storage, storageKey)),
+    [state, storage, storageKey]
+  );
+
+  const commit = useCallback((next: RateLimitState): void => {
+    setState(next);
+    setNow(Date.now());
+    writeRateLimit(storage, storageKey, next);
+    channelRef.current?.postMessage(next);
+  }, [storage, storageKey]);
 
   const canSubmit = useCallback((): boolean => {
-    const now = Date.now();
-    return now - lastSubmit > limitMs;
-  }, [lastSubmit, limitMs]);
+    const time = Date.now();
+    return getNextAllowedAt(getCurrentState(), limitMs, maxSubmits, time) <= time;
+  }, [getCurrentState, limitMs, maxSubmits]);
 
   const recordSubmit = useCallback((): void => {
-    const now = Date.now();
-    setLastSubmit(now);
-    
-    // Persist to sessionStorage
-    if (typeof window !== 'undefined') {
-      try {
-        sessionStorage.setItem(storageKey, now.toString());
-      } catch {
-        // Ignore storage errors
-      }
-    }
-  }, [storageKey]);
+    commit(addSubmit(getCurrentState(), limitMs, Date.now()));
+  }, [commit, getCurrentState, limitMs]);
+
+  const blockFor = useCallback((ms: number): void => {
+    commit(addBlock(getCurrentState(), limitMs, ms, Date.now()));
+  }, [commit, getCurrentState, limitMs]);
 
   const timeRemaining = useCallback((): number => {
-    const now = Date.now();
-    const elapsed = now - lastSubmit;
-    const remaining = limitMs - elapsed;
+    const time = Date.now();
+    const remaining = getNextAllowedAt(getCurrentState(), limitMs, maxSubmits, time) - time;
     return Math.max(0, Math.ceil(remaining / 1000));
-  }, [lastSubmit, limitMs]);
+  }, [getCurrentState, limitMs, maxSubmits]);
 
-  const isRateLimited = !canSubmit();
+  const isRateLimited = nextAllowedAt > now;
+  const secondsRemaining = Math.max(0, Math.ceil((nextAllowedAt - now) / 1000));
+  const remainingSubmits = Math.max(0, maxSubmits - pruneRateLimit(state, limitMs, now).submits.length);
 
   return {
     canSubmit,
     recordSubmit,
+    blockFor,
     timeRemaining,
+    secondsRemaining,
+    remainingSubmits,
     isRateLimited,
   };
 }
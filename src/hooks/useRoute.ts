@@ -0,0 +1,43 @@
+/**
+ * Route Hooks
+ *
+ * React bindings for the client-side router (utils/router.ts).
+ */
+
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { getLocationKey, parseRoute, subscribeToLocation, type Route } from '../utils/router';
+
+/**
+ * Current URL (pathname, search and hash), updated on every navigation
+ */
+export function useLocation(): URL {
+  const location = useSyncExternalStore(subscribeToLocation, getLocationKey, getLocationKey);
+  return useMemo(() => new URL(location, 'http://localhost'), [location]);
+}
+
+/**
+ * Current route, updated on every navigation
+ */
+export function useRoute(): Route {
+  const { pathname } = useLocation();
+  return useMemo(() => parseRoute(pathname), [pathname]);
+}
+
+/**
+ * Restore the expected scroll position after client-side navigation:
+ * the #hash target if there is one, otherwise the top of the page.
+ * Query-string updates (e.g. project filters) keep the scroll position.
+ */
+export function useScrollOnNavigate(): void {
+  const { pathname, hash } = useLocation();
+
+  useEffect(() => {
+    const target = hash ? document.getElementById(decodeURIComponent(hash.slice(1))) : null;
+
+    if (target) {
+      target.scrollIntoView();
+    } else if (!hash) {
+      window.scrollTo(0, 0);
+    }
+  }, [pathname, hash]);
+}
@@ -0,0 +1,82 @@
+/**
+ * Spam Protection Hook
+ *
+ * Client-side bot checks for forms: a honeypot field that people never see
+ * (bots filling every input give themselves away), and a minimum time
+ * between showing the form and submitting it. These only filter simple
+ * bots; the backend should check the inquiry's `spamCheck` as well.
+ */
+
+import { useCallback, useEffect, useRef, useState, type ChangeEvent } from 'react';
+import type { InquirySpamCheck } from '../types/content';
+
+interface UseSpamProtectionOptions {
+  /** Submissions sooner than this (ms) after the form is shown are rejected */
+  minFillTimeMs?: number;
+}
+
+type SpamCheckResult =
+  | { status: 'ok'; spamCheck: InquirySpamCheck }
+  /** The honeypot was filled: pretend to succeed without sending */
+  | { status: 'bot' }
+  /** Submitted faster than a person could fill the form */
+  | { status: 'too-fast'; waitMs: number };
+
+interface UseSpamProtectionResult {
+  /** Props for the hidden honeypot input */
+  honeypotProps: {
+    id: string;
+    name: string;
+    value: string;
+    onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  };
+  /** Run the checks when the form is submitted */
+  check: () => SpamCheckResult;
+  /** Restart the timer and clear the honeypot, e.g. after a submission */
+  reset: () => void;
+}
+
+// Deliberately plausible, so bots fill it in
+const HONEYPOT_NAME = 'website_url';
+
+export function useSpamProtection(
+  { minFillTimeMs = 3000 }: UseSpamProtectionOptions = {}
+): UseSpamProtectionResult {
+  const [honeypot, setHoneypot] = useState('');
+  const shownAtRef = useRef<number | null>(null);
+
+  // Time the form from when it is first shown
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, []);
+
+  const check = useCallback((): SpamCheckResult => {
+    if (honeypot.trim() !== '') {
+      return { status: 'bot' };
+    }
+
+    const fillTimeMs = Date.now() - (shownAtRef.current ?? Date.now());
+    if (fillTimeMs < minFillTimeMs) {
+      return { status: 'too-fast', waitMs: minFillTimeMs - fillTimeMs };
+    }
+    return { status: 'ok', spamCheck: { fillTimeMs } };
+  }, [honeypot, minFillTimeMs]);
+
+  const reset = useCallback(() => {
+    setHoneypot('');
+    shownAtRef.current = Date.now();
+  }, []);
+
+  return {
+    honeypotProps: {
+      id: HONEYPOT_NAME,
+      name: HONEYPOT_NAME,
+      value: honeypot,
+      onChange: (event) => setHoneypot(event.target.value),
+    },
+    check,
+    reset,
+  };
+}
+
+export default useSpamProtection;
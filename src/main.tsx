@@ -1,10 +1,34 @@
 import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { contentService } from './services/contentService'
+import { readHydrationData } from './utils/hydration'
 
-createRoot(document.getElementById('root')!).render(
+const container = document.getElementById('root')!
+
+// Prerendered pages carry the content they were rendered with
+const hydration = readHydrationData()
+if (hydration) {
+  contentService.hydrateContent(hydration.results)
+}
+
+const app = (
   <StrictMode>
-    <App />
-  </StrictMode>,
+    <App
+      initialContent={hydration?.content}
+      initialLocale={hydration?.locale}
+      prerendered={Boolean(hydration)}
+    />
+  </StrictMode>
 )
+
+// Hosts also serve the prerendered home page for other paths (and query
+// strings change what renders), so only hydrate the page it was rendered for
+const { pathname, search } = window.location
+const withoutSlash = (path: string) => path.replace(/\/+$/, '')
+if (hydration && withoutSlash(hydration.path) === withoutSlash(pathname) && !search) {
+  hydrateRoot(container, app)
+} else {
+  createRoot(container).render(app)
+}
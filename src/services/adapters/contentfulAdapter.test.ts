@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { contentfulAdapter } from './contentfulAdapter';
+import { paginatedProjectsSchema, serviceSchema, siteContentSchema } from '../contentSchemas';
+import { parseWithSchema } from '../../utils/schema';
+import site from './__fixtures__/contentful/site.json';
+import service from './__fixtures__/contentful/service.json';
+import projectsPage from './__fixtures__/contentful/projects-page.json';
+
+describe('contentfulAdapter', () => {
+  it('builds entry queries by content type', () => {
+    expect(contentfulAdapter.buildRequest({ resource: 'service', id: 'service-web' }))
+      .toContain('content_type=service&include=4&fields.id=service-web&limit=1');
+    expect(contentfulAdapter.buildRequest({ resource: 'projectsPage', page: 3, pageSize: 5, locale: 'es' }))
+      .toContain('content_type=project&include=4&order=fields.order&skip=10&limit=5&locale=es');
+  });
+
+  it('maps the site entry and its includes onto SiteContent', () => {
+    const data = contentfulAdapter.transform({ resource: 'site' }, site);
+    const { data: content, issues } = parseWithSchema(siteContentSchema, data);
+
+    expect(issues).toEqual([]);
+    expect(content.metadata.siteName).toBe('Acme Studio');
+    expect(content.navigation.links.map(link => link.id)).toEqual(['nav-home', 'nav-contact']);
+    expect(content.services.services.map(item => item.id)).toEqual(['service-web', 'service-cloud']);
+    expect(content.projects.projects.map(item => item.id)).toEqual(['project-alpha', 'project-beta']);
+    expect(content.projects.projects[0].image).toEqual({
+      url: 'https://images.ctfassets.net/8x1qv2tnbk6z/4NzwDSDlGECGIiokKomsyI/9b1c/alpha.png',
+      alt: 'Alpha dashboard',
+      width: 1200,
+      height: 800,
+    });
+    expect(content.contact.formFields.map(field => field.name)).toEqual(['name', 'email']);
+    expect(content.footer.socialLinks?.[0]).toMatchObject({ platform: 'github', url: 'https://github.com/acme' });
+  });
+
+  it('maps a single service entry', () => {
+    const data = contentfulAdapter.transform({ resource: 'service', id: 'service-cloud' }, service);
+    const { data: result, issues } = parseWithSchema(serviceSchema, data);
+
+    expect(issues).toEqual([]);
+    expect(result).toEqual({
+      id: 'service-cloud',
+      iconType: 'cloud',
+      title: 'Cloud Solutions',
+      description: 'Infrastructure that scales.',
+      order: 2,
+    });
+  });
+
+  it('derives pagination from skip, limit and total', () => {
+    const request = { resource: 'projectsPage', page: 2, pageSize: 1 } as const;
+    const { data: page, issues } = parseWithSchema(
+      paginatedProjectsSchema,
+      contentfulAdapter.transform(request, projectsPage)
+    );
+
+    expect(issues).toEqual([]);
+    expect(page.data.map(project => project.slug)).toEqual(['project-beta']);
+    expect(page.pagination).toEqual({ page: 2, pageSize: 1, totalItems: 2, totalPages: 2 });
+  });
+
+  it('returns null when no entry matches', () => {
+    expect(contentfulAdapter.transform({ resource: 'project', slug: 'missing' }, { items: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Contentful Adapter
+ *
+ * Maps Contentful Content Delivery API responses into our content types.
+ * Point VITE_CMS_API_URL at a proxy for https://cdn.contentful.com that adds
+ * the access token, so no token is shipped to the browser.
+ *
+ * Expected content model (content type IDs):
+ * - site, navigation, hero, servicesSection, projectsSection, contact, footer
+ *   (one entry each, fields named as in types/content.ts)
+ * - service, project (one entry per item)
+ *
+ * Locales are requested with the `locale` parameter; configure fallback
+ * locales in Contentful so untranslated fields are filled in.
+ *
+ * Linked entries and assets are resolved from the response `includes`.
+ * Assets map onto ProjectImage; entries without an `id` field use `sys.id`.
+ */
+
+import type { CMSAdapter, ContentRequest, ContentSection } from './types';
+
+const SPACE_ID = import.meta.env.VITE_CONTENTFUL_SPACE_ID || '';
+const ENVIRONMENT = import.meta.env.VITE_CONTENTFUL_ENVIRONMENT || 'master';
+
+// Content type IDs per section
+const SECTION_TYPES: Record<ContentSection, string> = {
+  navigation: 'navigation',
+  hero: 'hero',
+  services: 'servicesSection',
+  projects: 'projectsSection',
+  contact: 'contact',
+  footer: 'footer',
+};
+
+// Depth of linked entries to include (site -> section -> project -> image)
+const INCLUDE_DEPTH = 4;
+
+function entriesPath(contentType: string, query: string = ''): string {
+  return `/spaces/${SPACE_ID}/environments/${ENVIRONMENT}/entries` +
+    `?content_type=${contentType}&include=${INCLUDE_DEPTH}${query}`;
+}
+
+function buildPath(request: ContentRequest): string {
+  switch (request.resource) {
+    case 'site':
+      return entriesPath('site', '&limit=1');
+    case 'section':
+      return entriesPath(SECTION_TYPES[request.section], '&limit=1');
+    case 'services':
+      return entriesPath('service', '&order=fields.order');
+    case 'service':
+      return entriesPath('service', `&fields.id=${encodeURIComponent(request.id)}&limit=1`);
+    case 'projects': {
+      const featured = request.featured ? '&fields.featured=true' : '';
+      return entriesPath('project', `&order=fields.order${featured}`);
+    }
+    case 'projectsPage': {
+      const skip = (request.page - 1) * request.pageSize;
+      return entriesPath('project', `&order=fields.order&skip=${skip}&limit=${request.pageSize}`);
+    }
+    case 'project':
+      return entriesPath('project', `&fields.slug=${encodeURIComponent(request.slug)}&limit=1`);
+  }
+}
+
+function buildRequest(request: ContentRequest): string {
+  const path = buildPath(request);
+  return request.locale ? `${path}&locale=${encodeURIComponent(request.locale)}` : path;
+}
+
+// ============================================
+// RESPONSE MAPPING
+// ============================================
+
+type ContentfulRecord = Record<string, unknown>;
+
+interface ContentfulSys {
+  id: string;
+  type?: string;
+  linkType?: string;
+}
+
+interface ContentfulEntry {
+  sys: ContentfulSys;
+  fields?: ContentfulRecord;
+}
+
+interface ContentfulResponse {
+  items?: ContentfulEntry[];
+  includes?: {
+    Entry?: ContentfulEntry[];
+    Asset?: ContentfulEntry[];
+  };
+  total?: number;
+  skip?: number;
+  limit?: number;
+}
+
+function isRecord(value: unknown): value is ContentfulRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isLink(value: ContentfulRecord): boolean {
+  return isRecord(value.sys) && value.sys.type === 'Link';
+}
+
+class LinkResolver {
+  private entries = new Map<string, ContentfulEntry>();
+  private assets = new Map<string, ContentfulEntry>();
+
+  constructor(response: ContentfulResponse) {
+    response.items?.forEach(entry => this.entries.set(entry.sys.id, entry));
+    response.includes?.Entry?.forEach(entry => this.entries.set(entry.sys.id, entry));
+    response.includes?.Asset?.forEach(asset => this.assets.set(asset.sys.id, asset));
+  }
+
+  resolveEntry(entry: ContentfulEntry, seen: Set<string> = new Set()): ContentfulRecord {
+    const fields = this.resolveValue(entry.fields ?? {}, new Set(seen).add(entry.sys.id));
+    return { id: entry.sys.id, ...(fields as ContentfulRecord) };
+  }
+
+  private resolveAsset(asset: ContentfulEntry): ContentfulRecord {
+    const fields = asset.fields ?? {};
+    const file = isRecord(fields.file) ? fields.file : {};
+    const details = isRecord(file.details) && isRecord(file.details.image) ? file.details.image : {};
+    const url = typeof file.url === 'string' && file.url.startsWith('//') ? `https:${file.url}` : file.url;
+
+    return {
+      url,
+      alt: fields.description || fields.title || '',
+      width: details.width,
+      height: details.height,
+    };
+  }
+
+  private resolveValue(value: unknown, seen: Set<string>): unknown {
+    if (Array.isArray(value)) {
+      return value
+        .map(item => this.resolveValue(item, seen))
+        .filter(item => item !== undefined);
+    }
+
+    if (!isRecord(value)) {
+      return value;
+    }
+
+    if (isLink(value)) {
+      const sys = value.sys as ContentfulSys;
+      if (sys.linkType === 'Asset') {
+        const asset = this.assets.get(sys.id);
+        return asset ? this.resolveAsset(asset) : undefined;
+      }
+
+      // Unresolvable or circular links are dropped
+      const entry = this.entries.get(sys.id);
+      return entry && !seen.has(sys.id) ? this.resolveEntry(entry, seen) : undefined;
+    }
+
+    const result: ContentfulRecord = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = this.resolveValue(child, seen);
+    }
+    return result;
+  }
+}
+
+function transform(request: ContentRequest, raw: unknown): unknown {
+  if (!isRecord(raw)) return raw;
+
+  const response = raw as ContentfulResponse;
+  const resolver = new LinkResolver(response);
+  const items = (response.items ?? []).map(entry => resolver.resolveEntry(entry));
+
+  switch (request.resource) {
+    case 'services':
+    case 'projects':
+      return items;
+
+    case 'projectsPage': {
+      const pageSize = response.limit ?? items.length;
+      const totalItems = response.total ?? items.length;
+      return {
+        data: items,
+        pagination: {
+          page: pageSize > 0 ? Math.floor((response.skip ?? 0) / pageSize) + 1 : 1,
+          pageSize,
+          totalItems,
+          totalPages: pageSize > 0 ? Math.ceil(totalItems / pageSize) : 1,
+        },
+      };
+    }
+
+    default:
+      // Single entries (site, sections, service, project)
+      return items[0] ?? null;
+  }
+}
+
+export const contentfulAdapter: CMSAdapter = {
+  name: 'contentful',
+  buildRequest,
+  transform,
+};
+
+export default contentfulAdapter;
@@ -0,0 +1,35 @@
+/**
+ * CMS Adapters Index
+ *
+ * Export all bundled adapters and select one by name.
+ */
+
+import type { CMSAdapter } from './types';
+import { restAdapter } from './restAdapter';
+import { strapiAdapter } from './strapiAdapter';
+import { contentfulAdapter } from './contentfulAdapter';
+import { sanityAdapter } from './sanityAdapter';
+
+export type { CMSAdapter, ContentRequest, ContentSection } from './types';
+export { restAdapter, strapiAdapter, contentfulAdapter, sanityAdapter };
+
+export const cmsAdapters: Record<string, CMSAdapter> = {
+  rest: restAdapter,
+  strapi: strapiAdapter,
+  contentful: contentfulAdapter,
+  sanity: sanityAdapter,
+};
+
+/**
+ * Get an adapter by name, falling back to the REST adapter
+ */
+export function getCMSAdapter(name: string | undefined): CMSAdapter {
+  if (!name) return restAdapter;
+
+  const adapter = cmsAdapters[name];
+  if (!adapter) {
+    console.warn(`Unknown CMS adapter "${name}", using "rest"`);
+    return restAdapter;
+  }
+  return adapter;
+}
@@ -0,0 +1,43 @@
+/**
+ * REST Adapter
+ *
+ * Default adapter for a backend that serves content in our own shapes
+ * (see "API Endpoints Expected" in CMS_INTEGRATION.md).
+ */
+
+import type { CMSAdapter, ContentRequest } from './types';
+
+function buildPath(request: ContentRequest): string {
+  switch (request.resource) {
+    case 'site':
+      return '/api/content/site';
+    case 'section':
+      return `/api/content/${request.section}`;
+    case 'services':
+      return '/api/services';
+    case 'service':
+      return `/api/services/${encodeURIComponent(request.id)}`;
+    case 'projects':
+      return request.featured ? '/api/projects?featured=true' : '/api/projects';
+    case 'projectsPage':
+      return `/api/projects?page=${request.page}&pageSize=${request.pageSize}`;
+    case 'project':
+      return `/api/projects/${encodeURIComponent(request.slug)}`;
+  }
+}
+
+function buildRequest(request: ContentRequest): string {
+  const path = buildPath(request);
+  if (!request.locale) return path;
+
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}locale=${encodeURIComponent(request.locale)}`;
+}
+
+export const restAdapter: CMSAdapter = {
+  name: 'rest',
+  buildRequest,
+  transform: (_request, raw) => raw,
+};
+
+export default restAdapter;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { sanityAdapter } from './sanityAdapter';
+import { paginatedProjectsSchema, serviceSchema, siteContentSchema } from '../contentSchemas';
+import { parseWithSchema } from '../../utils/schema';
+import site from './__fixtures__/sanity/site.json';
+import service from './__fixtures__/sanity/service.json';
+import projectsPage from './__fixtures__/sanity/projects-page.json';
+
+describe('sanityAdapter', () => {
+  it('passes GROQ parameters as JSON-encoded query params', () => {
+    const url = new URL(sanityAdapter.buildRequest({ resource: 'project', slug: 'project-alpha' }), 'https://cms.test');
+
+    expect(url.pathname).toBe('/v2021-10-21/data/query/production');
+    expect(url.searchParams.get('$slug')).toBe('"project-alpha"');
+    expect(url.searchParams.get('query')).toContain('slug.current == $slug');
+  });
+
+  it('maps the site query result onto SiteContent', () => {
+    const data = sanityAdapter.transform({ resource: 'site' }, site);
+    const { data: content, issues } = parseWithSchema(siteContentSchema, data);
+
+    expect(issues).toEqual([]);
+    expect(content.metadata.siteName).toBe('Acme Studio');
+    expect(content.navigation.links.map(link => link.id)).toEqual(['navhome', 'navcontact']);
+    expect(content.services.services.map(item => item.id)).toEqual(['service-web', 'service-cloud']);
+    expect(content.projects.projects.map(item => item.slug)).toEqual(['project-alpha', 'project-beta']);
+    expect(content.projects.projects[0].image?.alt).toBe('Alpha dashboard');
+    expect(content.contact.formFields.map(field => field.id)).toEqual(['field-name', 'field-email']);
+    expect(data).not.toHaveProperty('metadata._id');
+  });
+
+  it('maps a single service document', () => {
+    const data = sanityAdapter.transform({ resource: 'service', id: 'service-cloud' }, service);
+    const { data: result, issues } = parseWithSchema(serviceSchema, data);
+
+    expect(issues).toEqual([]);
+    expect(result.id).toBe('service-cloud');
+    expect(result.title).toBe('Cloud Solutions');
+  });
+
+  it('builds pagination from the requested page and total count', () => {
+    const request = { resource: 'projectsPage', page: 2, pageSize: 1 } as const;
+    const { data: page, issues } = parseWithSchema(
+      paginatedProjectsSchema,
+      sanityAdapter.transform(request, projectsPage)
+    );
+
+    expect(issues).toEqual([]);
+    expect(page.data.map(project => project.slug)).toEqual(['project-beta']);
+    expect(page.pagination).toEqual({ page: 2, pageSize: 1, totalItems: 2, totalPages: 2 });
+  });
+});
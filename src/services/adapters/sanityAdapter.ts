@@ -0,0 +1,215 @@
+/**
+ * Sanity Adapter
+ *
+ * Queries Sanity with GROQ over the HTTP query API and maps the results
+ * into our content types. Point VITE_CMS_API_URL at
+ * https://<projectId>.apicdn.sanity.io (or a proxy in front of it).
+ *
+ * Expected schema (document types):
+ * - siteMetadata, navigation, hero, servicesSection, projectsSection,
+ *   contact, footer (one document each, fields named as in types/content.ts)
+ * - service, project (one document per item, `slug` as a slug field)
+ *
+ * Localized documents carry a `language` field, as set by the document
+ * internationalization plugin; documents without one are in the default
+ * locale.
+ *
+ * Projections map `_id`, `slug.current` and image assets onto our fields;
+ * array items without an `id` use their `_key`.
+ */
+
+import type { CMSAdapter, ContentRequest, ContentSection } from './types';
+import { DEFAULT_LOCALE } from '../../content/locales';
+
+const DATASET = import.meta.env.VITE_SANITY_DATASET || 'production';
+const API_VERSION = 'v2021-10-21';
+
+// Document types per section
+const SECTION_TYPES: Record<ContentSection, string> = {
+  navigation: 'navigation',
+  hero: 'hero',
+  services: 'servicesSection',
+  projects: 'projectsSection',
+  contact: 'contact',
+  footer: 'footer',
+};
+
+// ============================================
+// GROQ QUERIES
+// ============================================
+
+const IMAGE_PROJECTION = `{
+  "url": asset->url,
+  "alt": coalesce(alt, asset->altText, ""),
+  "width": asset->metadata.dimensions.width,
+  "height": asset->metadata.dimensions.height
+}`;
+
+const SERVICE_PROJECTION = `{ ..., "id": coalesce(id, _id) }`;
+
+const PROJECT_PROJECTION = `{
+  ...,
+  "id": coalesce(id, _id),
+  "slug": slug.current,
+  "image": image${IMAGE_PROJECTION},
+  "gallery": gallery[]${IMAGE_PROJECTION}
+}`;
+
+/**
+ * Filter for documents of a type in a locale
+ */
+function ofType(type: string, locale: string = DEFAULT_LOCALE): string {
+  const language = `coalesce(language, ${JSON.stringify(DEFAULT_LOCALE)})`;
+  return `_type == "${type}" && ${language} == ${JSON.stringify(locale)}`;
+}
+
+function sectionProjection(section: ContentSection, locale?: string): string {
+  switch (section) {
+    case 'services':
+      return `{ ..., "services": *[${ofType('service', locale)}] | order(order asc)${SERVICE_PROJECTION} }`;
+    case 'projects':
+      return `{ ..., "projects": *[${ofType('project', locale)}] | order(order asc)${PROJECT_PROJECTION} }`;
+    default:
+      return '{ ... }';
+  }
+}
+
+function sectionQuery(section: ContentSection, locale?: string): string {
+  return `*[${ofType(SECTION_TYPES[section], locale)}][0]${sectionProjection(section, locale)}`;
+}
+
+function siteQuery(locale?: string): string {
+  const sections = (Object.keys(SECTION_TYPES) as ContentSection[])
+    .map(section => `"${section}": ${sectionQuery(section, locale)}`)
+    .join(',\n');
+
+  return `{
+    "metadata": *[${ofType('siteMetadata', locale)}][0],
+    ${sections}
+  }`;
+}
+
+interface GroqQuery {
+  query: string;
+  params?: Record<string, unknown>;
+}
+
+function buildQuery(request: ContentRequest): GroqQuery {
+  const { locale } = request;
+
+  switch (request.resource) {
+    case 'site':
+      return { query: siteQuery(locale) };
+    case 'section':
+      return { query: sectionQuery(request.section, locale) };
+    case 'services':
+      return { query: `*[${ofType('service', locale)}] | order(order asc)${SERVICE_PROJECTION}` };
+    case 'service':
+      return {
+        query: `*[${ofType('service', locale)} && coalesce(id, _id) == $id][0]${SERVICE_PROJECTION}`,
+        params: { id: request.id },
+      };
+    case 'projects': {
+      const featured = request.featured ? ' && featured == true' : '';
+      return { query: `*[${ofType('project', locale)}${featured}] | order(order asc)${PROJECT_PROJECTION}` };
+    }
+    case 'projectsPage': {
+      const start = (request.page - 1) * request.pageSize;
+      return {
+        query: `{
+          "data": *[${ofType('project', locale)}] | order(order asc) [$start...$end]${PROJECT_PROJECTION},
+          "totalItems": count(*[${ofType('project', locale)}])
+        }`,
+        params: { start, end: start + request.pageSize },
+      };
+    }
+    case 'project':
+      return {
+        query: `*[${ofType('project', locale)} && slug.current == $slug][0]${PROJECT_PROJECTION}`,
+        params: { slug: request.slug },
+      };
+  }
+}
+
+function buildRequest(request: ContentRequest): string {
+  const { query, params = {} } = buildQuery(request);
+  const search = new URLSearchParams({ query });
+
+  // GROQ parameters are passed as JSON-encoded $name query params
+  for (const [name, value] of Object.entries(params)) {
+    search.set(`$${name}`, JSON.stringify(value));
+  }
+
+  return `/${API_VERSION}/data/query/${DATASET}?${search.toString()}`;
+}
+
+// ============================================
+// RESPONSE MAPPING
+// ============================================
+
+type SanityRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is SanityRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Strip Sanity system fields (_id, _type, _rev...) and use `_key` as the id
+ * of array items that have no id of their own
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const result: SanityRecord = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (!key.startsWith('_')) {
+      result[key] = normalize(child);
+    }
+  }
+
+  if (result.id === undefined && typeof value._key === 'string') {
+    result.id = value._key;
+  }
+
+  // Slug fields not covered by a projection
+  if (isRecord(value.slug) && typeof value.slug.current === 'string') {
+    result.slug = value.slug.current;
+  }
+
+  return result;
+}
+
+function transform(request: ContentRequest, raw: unknown): unknown {
+  if (!isRecord(raw)) return raw;
+
+  const result = normalize(raw.result);
+
+  if (request.resource === 'projectsPage' && isRecord(result)) {
+    const totalItems = typeof result.totalItems === 'number' ? result.totalItems : 0;
+    return {
+      data: result.data,
+      pagination: {
+        page: request.page,
+        pageSize: request.pageSize,
+        totalItems,
+        totalPages: Math.max(1, Math.ceil(totalItems / request.pageSize)),
+      },
+    };
+  }
+
+  return result;
+}
+
+export const sanityAdapter: CMSAdapter = {
+  name: 'sanity',
+  buildRequest,
+  transform,
+};
+
+export default sanityAdapter;
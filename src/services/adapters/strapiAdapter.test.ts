@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { strapiAdapter } from './strapiAdapter';
+import { paginatedProjectsSchema, serviceSchema, siteContentSchema } from '../contentSchemas';
+import { parseWithSchema } from '../../utils/schema';
+import site from './__fixtures__/strapi/site.json';
+import service from './__fixtures__/strapi/service.json';
+import projectsPage from './__fixtures__/strapi/projects-page.json';
+
+describe('strapiAdapter', () => {
+  it('builds collection queries that filter on content ids and slugs', () => {
+    expect(strapiAdapter.buildRequest({ resource: 'service', id: 'service-web' }))
+      .toBe('/api/services?populate=deep&filters[slug][$eq]=service-web');
+    expect(strapiAdapter.buildRequest({ resource: 'project', slug: 'project-alpha', locale: 'es' }))
+      .toBe('/api/projects?populate=deep&filters[slug][$eq]=project-alpha&locale=es');
+  });
+
+  it('maps the site single type onto SiteContent', () => {
+    const data = strapiAdapter.transform({ resource: 'site' }, site);
+    const { data: content, issues } = parseWithSchema(siteContentSchema, data);
+
+    expect(issues).toEqual([]);
+    expect(content.metadata.siteName).toBe('Acme Studio');
+    expect(content.services.services.map(item => item.id)).toEqual(['service-web', 'service-cloud']);
+    expect(content.projects.projects.map(item => item.id)).toEqual(['project-alpha', 'project-beta']);
+    expect(content.projects.projects[0].image).toEqual({
+      url: 'https://cdn.acme.example/alpha.png',
+      alt: 'Alpha dashboard',
+      width: 1200,
+      height: 800,
+    });
+    expect(content.projects.projects[1].image).toBeUndefined();
+    expect(content.contact.details).toEqual({ email: 'hello@acme.example', contactType: 'sales' });
+    expect(content.footer.socialLinks?.[0]).toMatchObject({ platform: 'github', url: 'https://github.com/acme' });
+  });
+
+  it('keeps the content id of a filtered service', () => {
+    const data = strapiAdapter.transform({ resource: 'service', id: 'service-cloud' }, service);
+    const { data: result, issues } = parseWithSchema(serviceSchema, data);
+
+    expect(issues).toEqual([]);
+    expect(result).toEqual({
+      id: 'service-cloud',
+      iconType: 'cloud',
+      title: 'Cloud Solutions',
+      description: 'Infrastructure that scales.',
+      order: 2,
+    });
+  });
+
+  it('maps pagination metadata', () => {
+    const request = { resource: 'projectsPage', page: 1, pageSize: 1 } as const;
+    const { data: page, issues } = parseWithSchema(paginatedProjectsSchema, strapiAdapter.transform(request, projectsPage));
+
+    expect(issues).toEqual([]);
+    expect(page.data.map(project => project.slug)).toEqual(['project-alpha']);
+    expect(page.pagination).toEqual({ page: 1, pageSize: 1, totalItems: 2, totalPages: 2 });
+  });
+
+  it('returns null for a filtered lookup without matches', () => {
+    expect(strapiAdapter.transform({ resource: 'project', slug: 'missing' }, { data: [], meta: {} })).toBeNull();
+  });
+});
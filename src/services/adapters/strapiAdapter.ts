@@ -0,0 +1,159 @@
+/**
+ * Strapi Adapter
+ *
+ * Maps Strapi v4 REST responses into our content types.
+ *
+ * Expected Strapi setup:
+ * - Single types: site, navigation, hero, services-section, projects-section,
+ *   contact, footer (fields named as in types/content.ts, nested objects as components)
+ * - Collection types: services, projects. Strapi reserves `id` for its
+ *   numeric ids, so each entry keeps its content id (e.g. "service-web") in
+ *   a `slug` field, which is mapped back onto `id`.
+ *
+ * Locales are requested with the i18n plugin's `locale` parameter.
+ *
+ * Strapi wraps entries as { data: { id, attributes } } and media as
+ * { data: { attributes: { url, alternativeText, ... } } }. These wrappers are
+ * flattened recursively so relations and components map onto our types.
+ */
+
+import type { CMSAdapter, ContentRequest, ContentSection } from './types';
+
+// Single type API IDs per section
+const SECTION_TYPES: Record<ContentSection, string> = {
+  navigation: 'navigation',
+  hero: 'hero',
+  services: 'services-section',
+  projects: 'projects-section',
+  contact: 'contact',
+  footer: 'footer',
+};
+
+// Populates nested components and relations (requires strapi-plugin-populate-deep)
+const POPULATE = 'populate=deep';
+
+function buildPath(request: ContentRequest): string {
+  switch (request.resource) {
+    case 'site':
+      return `/api/site?${POPULATE}`;
+    case 'section':
+      return `/api/${SECTION_TYPES[request.section]}?${POPULATE}`;
+    case 'services':
+      return `/api/services?${POPULATE}&sort=order:asc`;
+    case 'service':
+      return `/api/services?${POPULATE}&filters[slug][$eq]=${encodeURIComponent(request.id)}`;
+    case 'projects': {
+      const featured = request.featured ? '&filters[featured][$eq]=true' : '';
+      return `/api/projects?${POPULATE}&sort=order:asc${featured}`;
+    }
+    case 'projectsPage':
+      return `/api/projects?${POPULATE}&sort=order:asc` +
+        `&pagination[page]=${request.page}&pagination[pageSize]=${request.pageSize}`;
+    case 'project':
+      return `/api/projects?${POPULATE}&filters[slug][$eq]=${encodeURIComponent(request.slug)}`;
+  }
+}
+
+function buildRequest(request: ContentRequest): string {
+  const path = buildPath(request);
+  return request.locale ? `${path}&locale=${encodeURIComponent(request.locale)}` : path;
+}
+
+// ============================================
+// RESPONSE FLATTENING
+// ============================================
+
+type StrapiRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is StrapiRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * { id, attributes } -> { id, ...attributes }, with the content id from
+ * `slug` when the entry has one
+ */
+function flattenEntry(entry: StrapiRecord): StrapiRecord {
+  const attributes = isRecord(entry.attributes) ? entry.attributes : {};
+  const flattened = flatten(attributes) as StrapiRecord;
+
+  // Media entries map onto ProjectImage
+  if (typeof flattened.url === 'string' && 'alternativeText' in flattened) {
+    return {
+      url: flattened.url,
+      alt: flattened.alternativeText ?? '',
+      width: flattened.width,
+      height: flattened.height,
+    };
+  }
+
+  const id = typeof flattened.slug === 'string' ? flattened.slug : entry.id;
+  return { ...flattened, id: id === undefined ? undefined : String(id) };
+}
+
+function flatten(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(flatten);
+  }
+
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  // Relation or media wrapper: { data: entry | entry[] | null }
+  if ('data' in value && Object.keys(value).length <= 2) {
+    const { data } = value;
+    if (data === null) return undefined;
+    if (Array.isArray(data)) return data.map(item => (isRecord(item) ? flattenEntry(item) : item));
+    if (isRecord(data)) return flattenEntry(data);
+  }
+
+  // Entry: { id, attributes }
+  if ('attributes' in value) {
+    return flattenEntry(value);
+  }
+
+  const result: StrapiRecord = {};
+  for (const [key, child] of Object.entries(value)) {
+    // Component ids are numeric; our content ids are strings
+    result[key] = key === 'id' && typeof child === 'number' ? String(child) : flatten(child);
+  }
+  return result;
+}
+
+function transform(request: ContentRequest, raw: unknown): unknown {
+  if (!isRecord(raw)) return raw;
+
+  const data = flatten({ data: raw.data });
+
+  switch (request.resource) {
+    case 'service':
+    case 'project':
+      // Filtered collection queries return a list
+      return Array.isArray(data) ? data[0] ?? null : data;
+
+    case 'projectsPage': {
+      const meta = isRecord(raw.meta) && isRecord(raw.meta.pagination) ? raw.meta.pagination : {};
+      return {
+        data,
+        pagination: {
+          page: meta.page,
+          pageSize: meta.pageSize,
+          totalItems: meta.total,
+          totalPages: meta.pageCount,
+        },
+      };
+    }
+
+    default:
+      return data;
+  }
+}
+
+export const strapiAdapter: CMSAdapter = {
+  name: 'strapi',
+  buildRequest,
+  transform,
+};
+
+export default strapiAdapter;
@@ -0,0 +1,43 @@
+/**
+ * CMS Adapter Types
+ *
+ * A CMS adapter translates content requests from the content service into
+ * requests for a specific CMS, and maps its responses back into the shapes
+ * defined in types/content.ts.
+ */
+
+export type ContentSection =
+  | 'navigation'
+  | 'hero'
+  | 'services'
+  | 'projects'
+  | 'contact'
+  | 'footer';
+
+/**
+ * Content the content service can ask for, independent of any CMS.
+ * `locale` is only set for locales other than the default locale, so
+ * adapters request the CMS's default content when it is missing.
+ */
+export type ContentRequest = (
+  | { resource: 'site' }
+  | { resource: 'section'; section: ContentSection }
+  | { resource: 'services' }
+  | { resource: 'service'; id: string }
+  | { resource: 'projects'; featured?: boolean }
+  | { resource: 'projectsPage'; page: number; pageSize: number }
+  | { resource: 'project'; slug: string }
+) & { locale?: string };
+
+export interface CMSAdapter {
+  /** Adapter name, as selected with VITE_CMS_ADAPTER */
+  name: string;
+  /** Build the request path (relative to the CMS base URL) for a content request */
+  buildRequest(request: ContentRequest): string;
+  /**
+   * Map a raw CMS response into the matching content type
+   * (SiteContent, HeroContent, Project[], PaginatedResponse<Project>, etc.).
+   * The result is validated by the content service, so it may be partial.
+   */
+  transform(request: ContentRequest, raw: unknown): unknown;
+}
@@ -0,0 +1,33 @@
+/**
+ * Challenge Providers Index
+ *
+ * Export all bundled challenge providers and select one by name.
+ */
+
+import type { ChallengeProvider } from './types';
+import { stubChallenge } from './stubChallenge';
+import { proofOfWorkChallenge } from './proofOfWorkChallenge';
+
+export type { ChallengeContext, ChallengeProvider } from './types';
+export { ChallengeUnsupportedError } from './types';
+export { stubChallenge, proofOfWorkChallenge };
+export { createProofOfWorkChallenge, verifyProofOfWork } from './proofOfWorkChallenge';
+
+export const challengeProviders: Record<string, ChallengeProvider> = {
+  stub: stubChallenge,
+  'proof-of-work': proofOfWorkChallenge,
+};
+
+/**
+ * Get a provider by name; no name (or "none") means no challenge
+ */
+export function getChallengeProvider(name: string | undefined): ChallengeProvider | null {
+  if (!name || name === 'none') return null;
+
+  const provider = challengeProviders[name];
+  if (!provider) {
+    console.warn(`Unknown inquiry challenge "${name}", sending inquiries without one`);
+    return null;
+  }
+  return provider;
+}
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProofOfWorkChallenge, verifyProofOfWork } from './proofOfWorkChallenge';
+import { ChallengeUnsupportedError } from './types';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('proof-of-work challenge', () => {
+  it('solves tokens the backend check accepts for the same key only', async () => {
+    const token = await createProofOfWorkChallenge(8).getToken({ key: 'inquiry-1' });
+
+    expect(token).toMatch(/^\d+:\d+$/);
+    await expect(verifyProofOfWork('inquiry-1', token, 8)).resolves.toBe(true);
+  });
+
+  it('fails with ChallengeUnsupportedError without Web Crypto', async () => {
+    vi.stubGlobal('crypto', {});
+
+    await expect(createProofOfWorkChallenge(8).getToken({ key: 'inquiry-1' }))
+      .rejects.toBeInstanceOf(ChallengeUnsupportedError);
+    await expect(verifyProofOfWork('inquiry-1', '0:0'))
+      .rejects.toBeInstanceOf(ChallengeUnsupportedError);
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createProofOfWorkChallenge(8).getToken({ key: 'inquiry-1', signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
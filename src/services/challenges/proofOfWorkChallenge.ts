@@ -0,0 +1,87 @@
+/**
+ * Proof-of-Work Challenge Provider
+ *
+ * Makes every inquiry cost some CPU time, which is negligible for a person
+ * but adds up for bulk spam. The token is `<timestamp>:<nonce>`, chosen so
+ * that SHA-256(`<key>:<timestamp>:<nonce>`) starts with `difficulty` zero
+ * bits. The backend recomputes the hash, checks the zero bits, checks the
+ * timestamp is recent, and accepts each key once.
+ */
+
+import { ChallengeUnsupportedError, type ChallengeContext, type ChallengeProvider } from './types';
+
+// Leading zero bits required; each extra bit doubles the expected work
+const DEFAULT_DIFFICULTY = 16;
+
+// Hashes computed between checks for cancellation
+const BATCH_SIZE = 500;
+
+function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Web Crypto's digest, which only exists in secure contexts (https, localhost)
+ */
+function getSubtleCrypto(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new ChallengeUnsupportedError('Proof-of-work needs Web Crypto, which is unavailable on insecure origins');
+  }
+  return subtle;
+}
+
+async function sha256(text: string): Promise<Uint8Array> {
+  const digest = await getSubtleCrypto().digest('SHA-256', new TextEncoder().encode(text));
+  return new Uint8Array(digest);
+}
+
+/**
+ * Whether a token solves the challenge for a key (the check the backend runs)
+ */
+export async function verifyProofOfWork(
+  key: string,
+  token: string,
+  difficulty: number = DEFAULT_DIFFICULTY
+): Promise<boolean> {
+  return leadingZeroBits(await sha256(`${key}:${token}`)) >= difficulty;
+}
+
+/**
+ * Create a proof-of-work provider with the given difficulty
+ */
+export function createProofOfWorkChallenge(difficulty: number = DEFAULT_DIFFICULTY): ChallengeProvider {
+  return {
+    name: 'proof-of-work',
+    async getToken({ key, signal }: ChallengeContext): Promise<string> {
+      // Fail before any work, rather than on the first hash
+      getSubtleCrypto();
+      const timestamp = Date.now();
+
+      for (let nonce = 0; ; nonce++) {
+        if (nonce % BATCH_SIZE === 0) {
+          if (signal?.aborted) throw new DOMException('Challenge cancelled', 'AbortError');
+          // Yield to the event loop so the page stays responsive
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        const token = `${timestamp}:${nonce}`;
+        if (await verifyProofOfWork(key, token, difficulty)) {
+          return token;
+        }
+      }
+    },
+  };
+}
+
+export const proofOfWorkChallenge = createProofOfWorkChallenge(
+  Number(import.meta.env.VITE_INQUIRY_POW_DIFFICULTY) || DEFAULT_DIFFICULTY
+);
@@ -0,0 +1,18 @@
+/**
+ * Stub Challenge Provider
+ *
+ * Local stand-in for a real challenge service: issues a recognizable token
+ * without any work, so the challenge flow can be exercised in development
+ * and against the mock CMS. Backends must not accept stub tokens in production.
+ */
+
+import type { ChallengeContext, ChallengeProvider } from './types';
+
+async function getToken({ key }: ChallengeContext): Promise<string> {
+  return `stub:${key}`;
+}
+
+export const stubChallenge: ChallengeProvider = {
+  name: 'stub',
+  getToken,
+};
@@ -0,0 +1,37 @@
+/**
+ * Challenge Provider Types
+ *
+ * A challenge provider proves to the backend that an inquiry was sent by a
+ * person (or at least cost real work), e.g. proof-of-work or a
+ * Turnstile/hCaptcha-style service. The content service asks the provider
+ * for a token before every attempt to send an inquiry and attaches it to
+ * the payload as `spamCheck.challenge`; the backend verifies it.
+ */
+
+export interface ChallengeContext {
+  /** Idempotency key of the inquiry, so a token can be bound to it */
+  key: string;
+  /** Cancels solving the challenge */
+  signal?: AbortSignal;
+}
+
+export interface ChallengeProvider {
+  /** Provider name, as selected with VITE_INQUIRY_CHALLENGE */
+  name: string;
+  /**
+   * Solve or request a challenge; resolves to a token the backend can verify.
+   * Tokens may expire, so one is requested for every attempt.
+   */
+  getToken(context: ChallengeContext): Promise<string>;
+}
+
+/**
+ * The challenge cannot be solved in this browser (e.g. Web Crypto is
+ * unavailable on insecure origins). Trying again will not help.
+ */
+export class ChallengeUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChallengeUnsupportedError';
+  }
+}
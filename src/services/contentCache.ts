@@ -0,0 +1,165 @@
+/**
+ * Content Cache
+ *
+ * Stores raw CMS responses in memory and localStorage, keyed by endpoint,
+ * so content can be served immediately on repeat visits while it is
+ * revalidated in the background (stale-while-revalidate).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CacheEntry {
+  data: unknown;
+  /** ETag from the response, sent back as If-None-Match when revalidating */
+  etag?: string;
+  /** When the entry was last stored or confirmed fresh (ms since epoch) */
+  storedAt: number;
+}
+
+export interface CachePolicy {
+  /** Time in milliseconds an entry is served without revalidating */
+  ttl: number;
+  /** Additional time in milliseconds a stale entry may still be served */
+  maxStale: number;
+}
+
+type CacheListener = (data: unknown) => void;
+
+// ============================================
+// STORAGE
+// ============================================
+
+const STORAGE_PREFIX = 'triji_cms_cache:';
+
+const memoryCache = new Map<string, CacheEntry>();
+const listeners = new Map<string, Set<CacheListener>>();
+
+function getStorage(): Storage | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'data' in value &&
+    typeof (value as CacheEntry).storedAt === 'number'
+  );
+}
+
+/**
+ * Read an entry from memory, falling back to localStorage
+ */
+export function readCache(key: string): CacheEntry | null {
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const stored = storage.getItem(STORAGE_PREFIX + key);
+    if (!stored) return null;
+
+    const entry: unknown = JSON.parse(stored);
+    if (!isCacheEntry(entry)) return null;
+
+    memoryCache.set(key, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an entry in memory and localStorage
+ */
+export function writeCache(key: string, entry: CacheEntry): void {
+  memoryCache.set(key, entry);
+
+  const storage = getStorage();
+  if (!storage) return;
+
+  try {
+    storage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+  } catch {
+    // Ignore storage errors (quota exceeded, private mode)
+  }
+}
+
+/**
+ * Remove one entry, or every cached entry if no key is given
+ */
+export function clearCache(key?: string): void {
+  const storage = getStorage();
+
+  if (key !== undefined) {
+    memoryCache.delete(key);
+    try {
+      storage?.removeItem(STORAGE_PREFIX + key);
+    } catch {
+      // Ignore storage errors
+    }
+    return;
+  }
+
+  memoryCache.clear();
+  if (!storage) return;
+
+  try {
+    Object.keys(storage)
+      .filter(storedKey => storedKey.startsWith(STORAGE_PREFIX))
+      .forEach(storedKey => storage.removeItem(storedKey));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// ============================================
+// FRESHNESS
+// ============================================
+
+/**
+ * Entry can be served without revalidating
+ */
+export function isFresh(entry: CacheEntry, policy: CachePolicy): boolean {
+  return Date.now() - entry.storedAt < policy.ttl;
+}
+
+/**
+ * Entry can still be served while it is being revalidated
+ */
+export function isServable(entry: CacheEntry, policy: CachePolicy): boolean {
+  return Date.now() - entry.storedAt < policy.ttl + policy.maxStale;
+}
+
+// ============================================
+// SUBSCRIPTIONS
+// ============================================
+
+/**
+ * Listen for new data stored under a key after background revalidation
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToCache(key: string, listener: CacheListener): () => void {
+  const keyListeners = listeners.get(key) ?? new Set<CacheListener>();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) listeners.delete(key);
+  };
+}
+
+export function notifyCacheListeners(key: string, data: unknown): void {
+  listeners.get(key)?.forEach(listener => listener(data));
+}
@@ -0,0 +1,346 @@
+/**
+ * Content Schemas
+ *
+ * Runtime schemas mirroring the interfaces in types/content.ts.
+ * Used by the content service to validate CMS responses before
+ * they reach the components.
+ */
+
+import type {
+  SiteContent,
+  SiteMetadata,
+  NavigationLink,
+  NavigationContent,
+  HeroContent,
+  Service,
+  ServicesContent,
+  ProjectImage,
+  Project,
+  ProjectsPagination,
+  ProjectsContent,
+  ProjectsLabels,
+  ValidationMessages,
+  FieldValidation,
+  FormField,
+  FormStep,
+  ContactContent,
+  ContactLabels,
+  ContactDetails,
+  SocialLink,
+  FooterContent,
+  SiteLabels,
+  PaginatedResponse,
+} from '../types/content';
+import {
+  string,
+  number,
+  boolean,
+  oneOf,
+  optional,
+  object,
+  array,
+  type Schema,
+} from '../utils/schema';
+
+// ============================================
+// SITE-WIDE
+// ============================================
+
+export const siteMetadataSchema: Schema<SiteMetadata> = object<SiteMetadata>({
+  siteName: string(),
+  siteDescription: string(),
+  siteUrl: optional(string()),
+  favicon: optional(string()),
+  ogImage: optional(string()),
+  title: optional(string()),
+  titleTemplate: optional(string()),
+  twitterHandle: optional(string()),
+});
+
+export const navigationLinkSchema: Schema<NavigationLink> = object<NavigationLink>({
+  id: string(),
+  label: string(),
+  href: string(),
+  isExternal: optional(boolean()),
+});
+
+const linkButtonSchema = object<{ label: string; href: string }>({
+  label: string(),
+  href: string(),
+});
+
+export const navigationSchema: Schema<NavigationContent> = object<NavigationContent>({
+  logoText: string(),
+  logoImage: optional(string()),
+  links: array(navigationLinkSchema, { matchBy: 'id' }),
+  ctaButton: linkButtonSchema,
+  localeSwitcherLabel: optional(string()),
+  openMenuLabel: optional(string()),
+  closeMenuLabel: optional(string()),
+});
+
+// ============================================
+// HERO SECTION
+// ============================================
+
+export const heroSchema: Schema<HeroContent> = object<HeroContent>({
+  tag: string(),
+  title: string(),
+  titleHighlight: string(),
+  subtitle: string(),
+  primaryButton: linkButtonSchema,
+  secondaryButton: linkButtonSchema,
+  codeSnippet: optional(object<NonNullable<HeroContent['codeSnippet']>>({
+    lines: array(object<{ property: string; value: string }>({
+      property: string(),
+      value: string(),
+    })),
+  })),
+});
+
+// ============================================
+// SERVICES SECTION
+// ============================================
+
+export const serviceSchema: Schema<Service> = object<Service>({
+  id: string(),
+  iconType: oneOf(['code', 'smartphone', 'cloud', 'database', 'palette', 'shield', 'custom']),
+  customIconSvg: optional(string()),
+  title: string(),
+  description: string(),
+  order: number(),
+});
+
+export const servicesListSchema: Schema<Service[]> = array(serviceSchema, { matchBy: 'id' });
+
+export const servicesSchema: Schema<ServicesContent> = object<ServicesContent>({
+  sectionTag: string(),
+  sectionTitle: string(),
+  sectionSubtitle: string(),
+  services: servicesListSchema,
+});
+
+// ============================================
+// PROJECTS SECTION
+// ============================================
+
+export const projectImageSchema: Schema<ProjectImage> = object<ProjectImage>({
+  url: string(),
+  alt: string(),
+  width: optional(number()),
+  height: optional(number()),
+});
+
+export const projectSchema: Schema<Project> = object<Project>({
+  id: string(),
+  slug: string(),
+  title: string(),
+  category: string(),
+  description: string(),
+  shortDescription: optional(string()),
+  image: optional(projectImageSchema),
+  gallery: optional(array(projectImageSchema)),
+  technologies: optional(array(string())),
+  liveUrl: optional(string()),
+  githubUrl: optional(string()),
+  featured: boolean(),
+  order: number(),
+  publishedAt: optional(string()),
+});
+
+export const projectsListSchema: Schema<Project[]> = array(projectSchema, { matchBy: 'id' });
+
+export const projectsPaginationSchema: Schema<ProjectsPagination> = object<ProjectsPagination>({
+  pageSize: number(),
+  mode: oneOf(['pages', 'load-more', 'infinite']),
+});
+
+export const projectsLabelsSchema: Schema<ProjectsLabels> = object<ProjectsLabels>({
+  search: string(),
+  featuredOnly: string(),
+  clearFilters: string(),
+  category: string(),
+  technology: string(),
+  results: string(),
+  pageNavigation: string(),
+  previousPage: string(),
+  nextPage: string(),
+  page: string(),
+  loadMore: string(),
+  loading: string(),
+  pageError: string(),
+  viewDetails: string(),
+  viewLive: string(),
+  backToProjects: string(),
+  loadingProject: string(),
+  projectError: string(),
+  tryAgain: string(),
+  notFoundTitle: string(),
+  notFoundMessage: string(),
+  published: string(),
+  technologies: string(),
+  showImage: string(),
+});
+
+export const projectsSchema: Schema<ProjectsContent> = object<ProjectsContent>({
+  sectionTag: string(),
+  sectionTitle: string(),
+  sectionSubtitle: string(),
+  projects: projectsListSchema,
+  placeholderText: optional(string()),
+  searchPlaceholder: optional(string()),
+  noResultsText: optional(string()),
+  pagination: optional(projectsPaginationSchema),
+  labels: optional(projectsLabelsSchema),
+});
+
+export const paginatedProjectsSchema: Schema<PaginatedResponse<Project>> =
+  object<PaginatedResponse<Project>>({
+    data: projectsListSchema,
+    pagination: object<PaginatedResponse<Project>['pagination']>({
+      page: number(),
+      pageSize: number(),
+      totalItems: number(),
+      totalPages: number(),
+    }),
+  });
+
+// ============================================
+// CONTACT SECTION
+// ============================================
+
+export const validationMessagesSchema: Schema<ValidationMessages> = object<ValidationMessages>({
+  required: optional(string()),
+  minLength: optional(string()),
+  maxLength: optional(string()),
+  pattern: optional(string()),
+  email: optional(string()),
+  phone: optional(string()),
+  oneOf: optional(string()),
+  maxFiles: optional(string()),
+  maxFileSize: optional(string()),
+  accept: optional(string()),
+});
+
+export const fieldValidationSchema: Schema<FieldValidation> = object<FieldValidation>({
+  minLength: optional(number()),
+  maxLength: optional(number()),
+  pattern: optional(string()),
+  email: optional(boolean()),
+  phone: optional(boolean()),
+  oneOf: optional(array(string())),
+  maxFiles: optional(number()),
+  maxFileSize: optional(number()),
+  accept: optional(array(string())),
+  messages: optional(validationMessagesSchema),
+});
+
+export const formFieldSchema: Schema<FormField> = object<FormField>({
+  id: string(),
+  name: string(),
+  label: string(),
+  type: oneOf(['text', 'email', 'textarea', 'select', 'phone', 'file']),
+  placeholder: string(),
+  required: boolean(),
+  options: optional(array(string())),
+  rows: optional(number()),
+  validation: optional(fieldValidationSchema),
+});
+
+export const formStepSchema: Schema<FormStep> = object<FormStep>({
+  id: string(),
+  title: string(),
+  description: optional(string()),
+  fields: array(string()),
+});
+
+export const contactLabelsSchema: Schema<ContactLabels> = object<ContactLabels>({
+  progress: string(),
+  stepCount: string(),
+  back: string(),
+  next: string(),
+  edit: string(),
+  editStep: string(),
+  notProvided: string(),
+  sending: string(),
+  queued: string(),
+  sendingQueued: string(),
+  waitingOne: string(),
+  waitingMany: string(),
+  queueSent: string(),
+  queueFailed: string(),
+  dismiss: string(),
+  tooFast: string(),
+  rateLimited: string(),
+  second: string(),
+  seconds: string(),
+  minutes: string(),
+  draftSaved: string(),
+  restoreDraft: string(),
+  discardDraft: string(),
+  uploadProgress: string(),
+  dropFiles: string(),
+  removeFile: string(),
+});
+
+export const contactSchema: Schema<ContactContent> = object<ContactContent>({
+  sectionTag: string(),
+  sectionTitle: string(),
+  sectionSubtitle: string(),
+  formFields: array(formFieldSchema, { matchBy: 'id' }),
+  steps: optional(array(formStepSchema, { matchBy: 'id' })),
+  reviewTitle: optional(string()),
+  submitButton: object<ContactContent['submitButton']>({
+    label: string(),
+  }),
+  successMessage: string(),
+  errorMessage: string(),
+  details: optional(object<ContactDetails>({
+    email: optional(string()),
+    phone: optional(string()),
+    contactType: optional(string()),
+  })),
+  validationMessages: optional(validationMessagesSchema),
+  labels: optional(contactLabelsSchema),
+});
+
+// ============================================
+// FOOTER SECTION
+// ============================================
+
+export const socialLinkSchema: Schema<SocialLink> = object<SocialLink>({
+  id: string(),
+  platform: oneOf(['github', 'linkedin', 'twitter', 'instagram', 'facebook', 'youtube', 'other']),
+  url: string(),
+  label: string(),
+});
+
+export const footerSchema: Schema<FooterContent> = object<FooterContent>({
+  brandName: string(),
+  tagline: string(),
+  links: array(navigationLinkSchema, { matchBy: 'id' }),
+  socialLinks: optional(array(socialLinkSchema, { matchBy: 'id' })),
+  copyrightText: string(),
+});
+
+// ============================================
+// COMPLETE SITE CONTENT
+// ============================================
+
+export const siteLabelsSchema: Schema<SiteLabels> = object<SiteLabels>({
+  loading: string(),
+  notFoundTitle: string(),
+  notFoundMessage: string(),
+  backToHome: string(),
+});
+
+export const siteContentSchema: Schema<SiteContent> = object<SiteContent>({
+  metadata: siteMetadataSchema,
+  navigation: navigationSchema,
+  hero: heroSchema,
+  services: servicesSchema,
+  projects: projectsSchema,
+  contact: contactSchema,
+  footer: footerSchema,
+  labels: optional(siteLabelsSchema),
+});
@@ -6,10 +6,25 @@
  * to fetch from a CMS API.
  * 
  * CMS Integration Guide:
- * 1. Replace the fetch functions with actual API calls
+ * 1. Select a CMS adapter with VITE_CMS_ADAPTER (see adapters/)
  * 2. Update the CMS_CONFIG with your CMS endpoint
  * 3. Handle authentication if required
- * 4. Add caching logic as needed
+ * 4. Adjust the cache TTLs in CMS_CONFIG.cache as needed
+ *
+ * Responses are cached in memory and localStorage (see contentCache.ts).
+ * Stale entries are served immediately and revalidated in the background.
+ * Getter results are shared between callers and concurrent requests are
+ * deduplicated (see queryCache.ts).
+ *
+ * Section content from the CMS is deep merged over defaultContent.ts, so
+ * the CMS only needs to supply what it manages. All CMS responses are then
+ * validated against the schemas in contentSchemas.ts; invalid fields fall
+ * back to the matching values in defaultContent.ts.
+ *
+ * Every getter takes a `locale` (see content/locales.ts). Content is
+ * requested from the CMS in that locale and merged over the locale's
+ * default content, which falls back to the default locale where it has no
+ * translation.
  */
 
 import type {
@@ -23,19 +38,77 @@ import type {
   Project,
   Service,
   InquirySubmission,
+  InquiryFiles,
+  NewInquiry,
   ApiResponse,
   PaginatedResponse,
+  ContentResult,
+  DehydratedContent,
+  LocaleCode,
 } from '../types/content';
 
+import { DEFAULT_LOCALE, getLocaleContent, resolveLocale } from '../content/locales';
+
+import {
+  siteContentSchema,
+  navigationSchema,
+  heroSchema,
+  servicesSchema,
+  serviceSchema,
+  servicesListSchema,
+  projectsSchema,
+  projectSchema,
+  projectsListSchema,
+  paginatedProjectsSchema,
+  contactSchema,
+  footerSchema,
+} from './contentSchemas';
+import {
+  parseWithSchema,
+  SchemaValidationError,
+  type Schema,
+  type SchemaIssue,
+} from '../utils/schema';
+import { deepMerge, type ArrayMergeStrategy, type MergeOptions } from '../utils/merge';
+import { paginate } from '../utils/pagination';
+import {
+  readCache,
+  writeCache,
+  clearCache,
+  isFresh,
+  isServable,
+  subscribeToCache,
+  notifyCacheListeners,
+  type CacheEntry,
+  type CachePolicy,
+} from './contentCache';
+import {
+  fetchQuery,
+  getQueryResult,
+  invalidateQueries,
+  setQueryResult,
+  subscribeToQuery,
+} from './queryCache';
+import { getCMSAdapter, type ContentRequest } from './adapters';
+import { ChallengeUnsupportedError, getChallengeProvider } from './challenges';
 import {
-  defaultSiteContent,
-  defaultNavigation,
-  defaultHero,
-  defaultServices,
-  defaultProjects,
-  defaultContact,
-  defaultFooter,
-} from '../content/defaultContent';
+  fetchWithRetry,
+  httpError,
+  isRetryableStatus,
+  parseRetryAfter,
+  sendWithProgress,
+  type RequestOptions,
+  type RetryPolicy,
+  type UploadOptions,
+} from './http';
+import { CMSNotFoundError, CMSParseError, CMSTimeoutError, isAbortError } from './errors';
+import {
+  getQueuedInquiries,
+  putQueuedInquiry,
+  removeQueuedInquiry,
+  subscribeToInquiryQueue,
+  type QueuedInquiry,
+} from './inquiryQueue';
 
 // ============================================
 // CMS CONFIGURATION
@@ -44,9 +117,39 @@ import {
 interface CMSConfig {
   baseUrl: string;
   enabled: boolean;
+  /** How partial CMS content is merged over the default content */
+  merge: MergeOptions;
+  cache: CacheConfig;
+  request: RequestConfig;
+}
+
+interface RequestConfig {
+  /** Time in milliseconds before a request is abandoned */
+  timeoutMs: number;
+  /** Time in milliseconds before a multipart upload is abandoned */
+  uploadTimeoutMs: number;
+  /** Retry policy for GET requests (POSTs are never retried) */
+  retry: RetryPolicy;
+}
+
+type ContentResource = ContentRequest['resource'];
+
+interface CacheConfig {
+  enabled: boolean;
+  /** TTL in milliseconds per content resource */
+  ttls: Record<ContentResource, number>;
+  /** How long in milliseconds past its TTL an entry may be served while revalidating */
+  maxStale: number;
+}
+
+const ARRAY_MERGE_STRATEGIES: ArrayMergeStrategy[] = ['replace', 'append', 'merge-by-id'];
+
+function parseArrayMergeStrategy(value: string | undefined): ArrayMergeStrategy {
+  return ARRAY_MERGE_STRATEGIES.find(strategy => strategy === value) ?? 'replace';
 }
 
 // Configure your CMS settings here
+// Select the CMS with VITE_CMS_ADAPTER (rest, strapi, contentful, sanity)
 // NOTE: API keys should NEVER be stored in frontend code.
 // Authentication should be handled via:
 // 1. Backend proxy that adds credentials server-side
@@ -55,50 +158,372 @@ interface CMSConfig {
 const CMS_CONFIG: CMSConfig = {
   baseUrl: import.meta.env.VITE_CMS_API_URL || '',
   enabled: import.meta.env.VITE_CMS_ENABLED === 'true',
+  merge: {
+    // Default strategy for lists (links, services, projects, form fields...)
+    arrays: parseArrayMergeStrategy(import.meta.env.VITE_CMS_ARRAY_MERGE),
+    // Per-path overrides, relative to SiteContent, e.g.:
+    // paths: { 'projects.projects': 'merge-by-id' },
+    paths: {},
+  },
+  cache: {
+    enabled: import.meta.env.VITE_CMS_CACHE !== 'false',
+    ttls: {
+      site: 5 * 60 * 1000, // 5 minutes
+      section: 5 * 60 * 1000,
+      services: 10 * 60 * 1000,
+      service: 10 * 60 * 1000,
+      projects: 60 * 1000, // 1 minute
+      projectsPage: 60 * 1000,
+      project: 60 * 1000,
+    },
+    maxStale: 24 * 60 * 60 * 1000, // 1 day
+  },
+  request: {
+    timeoutMs: Number(import.meta.env.VITE_CMS_TIMEOUT_MS) || 8000,
+    uploadTimeoutMs: Number(import.meta.env.VITE_CMS_UPLOAD_TIMEOUT_MS) || 120000,
+    retry: {
+      retries: 2,
+      baseDelayMs: 500,
+      maxDelayMs: 4000,
+    },
+  },
 };
 
+// Translates content requests to and from the configured CMS
+const cmsAdapter = getCMSAdapter(import.meta.env.VITE_CMS_ADAPTER);
+
+// Anti-spam challenge solved for every inquiry (none by default)
+// Select it with VITE_INQUIRY_CHALLENGE (stub, proof-of-work)
+const challengeProvider = getChallengeProvider(import.meta.env.VITE_INQUIRY_CHALLENGE);
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
+type CMSResponse =
+  | { status: 'modified'; data: unknown; etag?: string }
+  | { status: 'not-modified' };
+
 /**
- * Generic fetch wrapper with error handling
+ * Generic fetch wrapper with timeout and retries
  * Uses credentials: 'include' for cookie-based auth instead of API keys
+ * Throws a CMSError subclass (see errors.ts) on failure
  */
-async function fetchFromCMS<T>(endpoint: string): Promise<T | null> {
-  if (!CMS_CONFIG.enabled || !CMS_CONFIG.baseUrl) {
-    return null;
-  }
+async function requestFromCMS(
+  endpoint: string,
+  { etag, signal }: { etag?: string; signal?: AbortSignal } = {}
+): Promise<CMSResponse> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
 
-  try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
+  if (etag) {
+    headers['If-None-Match'] = etag;
+  }
 
-    const response = await fetch(`${CMS_CONFIG.baseUrl}${endpoint}`, {
+  const response = await fetchWithRetry(
+    `${CMS_CONFIG.baseUrl}${endpoint}`,
+    endpoint,
+    {
       headers,
       credentials: 'include', // Use cookies for authentication
-    });
+    },
+    { timeoutMs: CMS_CONFIG.request.timeoutMs, retry: CMS_CONFIG.request.retry, signal }
+  );
 
-    if (!response.ok) {
-      console.error(`CMS fetch error: ${response.status} ${response.statusText}`);
-      return null;
+  if (response.status === 304) {
+    return { status: 'not-modified' };
+  }
+
+  if (!response.ok) {
+    throw httpError(endpoint, response);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    throw new CMSParseError(endpoint, error);
+  }
+
+  return { status: 'modified', data, etag: response.headers.get('ETag') ?? undefined };
+}
+
+/**
+ * Request path for a content request. The default locale is left out, so
+ * its endpoints (and cache entries) are those of a site without locales.
+ */
+function buildEndpoint(request: ContentRequest): string {
+  const locale = resolveLocale(request.locale);
+  return cmsAdapter.buildRequest({
+    ...request,
+    locale: locale === DEFAULT_LOCALE ? undefined : locale,
+  });
+}
+
+function getCachePolicy(request: ContentRequest): CachePolicy {
+  const { ttls, maxStale } = CMS_CONFIG.cache;
+  return { ttl: ttls[request.resource], maxStale };
+}
+
+// Revalidation requests in flight, so concurrent reads share one request
+const pendingRevalidations = new Map<string, Promise<unknown | null>>();
+
+/**
+ * Fetch an endpoint, conditionally if a cached ETag exists, and update the cache.
+ * Listeners are notified when the stored data changes.
+ * Not cancellable, since the request is shared by every caller.
+ */
+function revalidate(endpoint: string, cached: CacheEntry | null): Promise<unknown | null> {
+  const pending = pendingRevalidations.get(endpoint);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const response = await requestFromCMS(endpoint, { etag: cached?.etag });
+
+    if (response.status === 'not-modified') {
+      if (!cached) return null;
+      writeCache(endpoint, { ...cached, storedAt: Date.now() });
+      return cached.data;
+    }
+
+    writeCache(endpoint, { data: response.data, etag: response.etag, storedAt: Date.now() });
+    if (cached && JSON.stringify(cached.data) !== JSON.stringify(response.data)) {
+      notifyCacheListeners(endpoint, response.data);
     }
+    return response.data;
+  })().finally(() => pendingRevalidations.delete(endpoint));
+
+  pendingRevalidations.set(endpoint, request);
+  return request;
+}
+
+function isCMSEnabled(): boolean {
+  return CMS_CONFIG.enabled && Boolean(CMS_CONFIG.baseUrl);
+}
+
+/**
+ * Cached fetch from the CMS (stale-while-revalidate).
+ * Fresh entries are returned as-is; stale entries are returned immediately
+ * and revalidated in the background; otherwise the CMS is queried.
+ * Raw responses are cached; the adapter maps them on every read.
+ *
+ * Throws a CMSError subclass on failure, and CMSNotFoundError when
+ * the CMS has no content for the request.
+ */
+async function fetchFromCMS(request: ContentRequest): Promise<unknown> {
+  const endpoint = buildEndpoint(request);
+  const raw = await fetchRaw(endpoint, request);
+  const data = raw === null ? null : cmsAdapter.transform(request, raw);
+
+  if (data === null || data === undefined) {
+    throw new CMSNotFoundError(endpoint);
+  }
+  return data;
+}
+
+async function fetchRaw(endpoint: string, request: ContentRequest): Promise<unknown | null> {
+  if (!CMS_CONFIG.cache.enabled) {
+    const response = await requestFromCMS(endpoint);
+    return response.status === 'modified' ? response.data : null;
+  }
+
+  const policy = getCachePolicy(request);
+  const cached = readCache(endpoint);
+
+  if (cached && isFresh(cached, policy)) {
+    return cached.data;
+  }
+
+  if (cached && isServable(cached, policy)) {
+    revalidate(endpoint, cached).catch(error => {
+      console.error('CMS revalidation failed:', error);
+    });
+    return cached.data;
+  }
+
+  return revalidate(endpoint, cached);
+}
+
+// ============================================
+// RESPONSE VALIDATION
+// ============================================
+
+export interface ContentValidationReport {
+  endpoint: string;
+  /** True if the whole response was unusable and discarded */
+  rejected: boolean;
+  issues: SchemaIssue[];
+  timestamp: string;
+}
 
-    const data = await response.json();
-    return data as T;
+// Latest report per endpoint (only endpoints that had issues)
+const validationReports = new Map<string, ContentValidationReport>();
+
+/**
+ * Get the validation reports for CMS responses that did not match
+ * the content types. Useful for debugging CMS configuration.
+ */
+export function getValidationReports(): ContentValidationReport[] {
+  return Array.from(validationReports.values());
+}
+
+function recordValidation(endpoint: string, issues: SchemaIssue[], rejected: boolean): void {
+  if (issues.length === 0 && !rejected) {
+    validationReports.delete(endpoint);
+    return;
+  }
+
+  const report: ContentValidationReport = {
+    endpoint,
+    rejected,
+    issues,
+    timestamp: new Date().toISOString(),
+  };
+  validationReports.set(endpoint, report);
+  console.warn(`CMS response for ${endpoint} did not match schema:`, report);
+}
+
+/**
+ * Fetch from the CMS and validate the response against a schema.
+ * Invalid fields are repaired or replaced with the matching fallback value;
+ * throws SchemaValidationError if the response is unusable and cannot be repaired.
+ */
+async function fetchValidated<T>(
+  request: ContentRequest,
+  schema: Schema<T>,
+  fallback?: T
+): Promise<T> {
+  const data = await fetchFromCMS(request);
+  return validateResponse(buildEndpoint(request), schema, data, fallback);
+}
+
+function validateResponse<T>(
+  endpoint: string,
+  schema: Schema<T>,
+  raw: unknown,
+  fallback?: T
+): T {
+  try {
+    const { data, issues } = parseWithSchema(schema, raw, fallback);
+    recordValidation(endpoint, issues, false);
+    return data;
   } catch (error) {
-    console.error('CMS fetch failed:', error);
-    return null;
+    if (error instanceof SchemaValidationError) {
+      recordValidation(endpoint, [{ path: error.path, message: error.message, resolution: 'dropped' }], true);
+    }
+    throw error;
   }
 }
 
+/**
+ * Fetch a content section from the CMS and merge it over its defaults,
+ * so sections or fields the CMS leaves out still come from defaultContent.ts.
+ * The merged result is then validated like any other response.
+ *
+ * @param path Location of the section within SiteContent ('' for the whole site),
+ * used to apply per-path array merge strategies
+ */
+async function fetchMerged<T>(
+  request: ContentRequest,
+  schema: Schema<T>,
+  defaults: T,
+  path: string
+): Promise<T> {
+  const data = await fetchFromCMS(request);
+  const merged = deepMerge(defaults, data, CMS_CONFIG.merge, path);
+  return validateResponse(buildEndpoint(request), schema, merged, defaults);
+}
+
+// ============================================
+// CONTENT RESULTS
+// ============================================
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Endpoints whose background revalidation already invalidates their query
+const watchedEndpoints = new Set<string>();
+
+function getStaleTime(request: ContentRequest): number {
+  return CMS_CONFIG.cache.enabled ? getCachePolicy(request).ttl : 0;
+}
+
+/**
+ * Run a CMS load and describe its outcome as a ContentResult.
+ * The fallback is used when the CMS is disabled or the load fails.
+ *
+ * Results are shared through the query cache, keyed by endpoint, so
+ * concurrent callers share one load. The signal only stops the caller
+ * waiting; aborts are rethrown so cancelled callers can stop.
+ */
+async function loadContent<T>(
+  request: ContentRequest,
+  load: () => Promise<T>,
+  fallback: T,
+  { signal }: RequestOptions = {}
+): Promise<ContentResult<T>> {
+  if (!isCMSEnabled()) {
+    return { status: 'fallback', data: fallback, reason: 'cms-disabled' };
+  }
+
+  const endpoint = buildEndpoint(request);
+  if (!watchedEndpoints.has(endpoint)) {
+    watchedEndpoints.add(endpoint);
+    subscribeToCache(endpoint, () => invalidateQueries(endpoint));
+  }
+
+  return fetchQuery<T>(endpoint, async () => {
+    try {
+      return { status: 'ok', data: await load() };
+    } catch (error) {
+      console.error('CMS content request failed:', error);
+      return { status: 'error', data: fallback, error: toError(error) };
+    }
+  }, { staleTime: getStaleTime(request), signal });
+}
+
+/**
+ * Load a single item, treating "not found" as a successful empty result
+ */
+async function loadItem<T>(
+  request: ContentRequest,
+  load: () => Promise<T>,
+  fallback: T | null,
+  options: RequestOptions = {}
+): Promise<ContentResult<T | null>> {
+  return loadContent<T | null>(request, async () => {
+    try {
+      return await load();
+    } catch (error) {
+      if (error instanceof CMSNotFoundError) return null;
+      throw error;
+    }
+  }, fallback, options);
+}
+
+interface PostOptions extends UploadOptions {
+  /** Sent as the Idempotency-Key header, so a repeated request has no new effect */
+  idempotencyKey?: string;
+}
+
+interface PostResponse<R> extends ApiResponse<R> {
+  /** No response, or a retryable status: the same request may succeed later */
+  retryable?: boolean;
+}
+
 /**
  * POST request wrapper for CMS
- * Uses credentials: 'include' for cookie-based auth instead of API keys
+ * Uses credentials: 'include' for cookie-based auth instead of API keys.
+ * FormData is sent as multipart/form-data, anything else as JSON.
  */
-async function postToCMS<T, R>(endpoint: string, data: T): Promise<ApiResponse<R>> {
-  if (!CMS_CONFIG.enabled || !CMS_CONFIG.baseUrl) {
+async function postToCMS<T, R>(
+  endpoint: string,
+  data: T,
+  { idempotencyKey, ...options }: PostOptions = {}
+): Promise<PostResponse<R>> {
+  if (!isCMSEnabled()) {
     // Return success for local development
     return {
       success: true,
@@ -108,37 +533,65 @@ async function postToCMS<T, R>(endpoint: string, data: T): Promise<ApiResponse<R
   }
 
   try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
+    const multipart = data instanceof FormData;
+    const url = `${CMS_CONFIG.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {};
+
+    // The browser sets the multipart Content-Type, including its boundary
+    if (!multipart) headers['Content-Type'] = 'application/json';
+    if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
 
-    const response = await fetch(`${CMS_CONFIG.baseUrl}${endpoint}`, {
+    const init = {
       method: 'POST',
       headers,
-      credentials: 'include', // Use cookies for authentication
-      body: JSON.stringify(data),
-    });
+      credentials: 'include' as const, // Use cookies for authentication
+      body: multipart ? data : JSON.stringify(data),
+    };
+    const timeoutMs = multipart ? CMS_CONFIG.request.uploadTimeoutMs : CMS_CONFIG.request.timeoutMs;
 
-    const result = await response.json();
+    // Not retried: submissions are not idempotent
+    const response = options.onUploadProgress
+      ? await sendWithProgress(url, endpoint, init, { ...options, timeoutMs })
+      : await fetchWithRetry(url, endpoint, init, { timeoutMs, signal: options.signal });
 
     if (!response.ok) {
+      // Error bodies are not always JSON (e.g. a proxy's 429 page)
+      const result = await response.json().catch(() => ({}));
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
       return {
         success: false,
         data: null as unknown as R,
-        error: result.message || 'Submission failed',
+        error: result.message || (response.status === 429
+          ? 'Too many requests. Please try again later.'
+          : 'Submission failed'),
+        retryable: isRetryableStatus(response.status),
+        retryAfterMs: retryAfter !== undefined ? retryAfter * 1000 : undefined,
+        rateLimited: response.status === 429 ? true : undefined,
       };
     }
 
+    let result;
+    try {
+      result = await response.json();
+    } catch (error) {
+      throw new CMSParseError(endpoint, error);
+    }
+
     return {
       success: true,
       data: result,
     };
   } catch (error) {
+    if (isAbortError(error)) throw error;
+
     console.error('CMS POST failed:', error);
     return {
       success: false,
       data: null as unknown as R,
-      error: 'Network error. Please try again.',
+      error: error instanceof CMSTimeoutError
+        ? 'The request timed out. Please try again.'
+        : 'Network error. Please try again.',
+      retryable: !(error instanceof CMSParseError),
     };
   }
 }
@@ -147,90 +600,171 @@ async function postToCMS<T, R>(endpoint: string, data: T): Promise<ApiResponse<R
 // CONTENT FETCHING FUNCTIONS
 // ============================================
 
+export interface ContentOptions extends RequestOptions {
+  /** Locale of the content; unsupported or missing locales use the default locale */
+  locale?: LocaleCode;
+}
+
 /**
  * Fetch all site content
  */
-export async function getSiteContent(): Promise<SiteContent> {
-  const cmsContent = await fetchFromCMS<SiteContent>('/api/content/site');
-  return cmsContent || defaultSiteContent;
+export async function getSiteContent(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<SiteContent>> {
+  const defaults = getLocaleContent(resolveLocale(locale));
+  const request: ContentRequest = { resource: 'site', locale };
+  return loadContent(
+    request,
+    () => fetchMerged(request, siteContentSchema, defaults, ''),
+    defaults,
+    options
+  );
 }
 
 /**
  * Fetch navigation content
  */
-export async function getNavigation(): Promise<NavigationContent> {
-  const cmsContent = await fetchFromCMS<NavigationContent>('/api/content/navigation');
-  return cmsContent || defaultNavigation;
+export async function getNavigation(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<NavigationContent>> {
+  const defaults = getLocaleContent(resolveLocale(locale)).navigation;
+  const request: ContentRequest = { resource: 'section', section: 'navigation', locale };
+  return loadContent(
+    request,
+    () => fetchMerged(request, navigationSchema, defaults, 'navigation'),
+    defaults,
+    options
+  );
 }
 
 /**
  * Fetch hero section content
  */
-export async function getHeroContent(): Promise<HeroContent> {
-  const cmsContent = await fetchFromCMS<HeroContent>('/api/content/hero');
-  return cmsContent || defaultHero;
+export async function getHeroContent(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<HeroContent>> {
+  const defaults = getLocaleContent(resolveLocale(locale)).hero;
+  const request: ContentRequest = { resource: 'section', section: 'hero', locale };
+  return loadContent(
+    request,
+    () => fetchMerged(request, heroSchema, defaults, 'hero'),
+    defaults,
+    options
+  );
 }
 
 /**
  * Fetch services section content
  */
-export async function getServicesContent(): Promise<ServicesContent> {
-  const cmsContent = await fetchFromCMS<ServicesContent>('/api/content/services');
-  return cmsContent || defaultServices;
+export async function getServicesContent(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<ServicesContent>> {
+  const defaults = getLocaleContent(resolveLocale(locale)).services;
+  const request: ContentRequest = { resource: 'section', section: 'services', locale };
+  return loadContent(
+    request,
+    () => fetchMerged(request, servicesSchema, defaults, 'services'),
+    defaults,
+    options
+  );
 }
 
 /**
  * Fetch all services
  */
-export async function getServices(): Promise<Service[]> {
-  const cmsContent = await fetchFromCMS<Service[]>('/api/services');
-  return cmsContent || defaultServices.services;
+export async function getServices(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<Service[]>> {
+  const fallback = getLocaleContent(resolveLocale(locale)).services.services;
+  const request: ContentRequest = { resource: 'services', locale };
+  return loadContent(
+    request,
+    () => fetchValidated(request, servicesListSchema, fallback),
+    fallback,
+    options
+  );
 }
 
 /**
  * Fetch a single service by ID
  */
-export async function getServiceById(id: string): Promise<Service | null> {
-  const cmsContent = await fetchFromCMS<Service>(`/api/services/${id}`);
-  if (cmsContent) return cmsContent;
-  
-  return defaultServices.services.find(s => s.id === id) || null;
+export async function getServiceById(
+  id: string,
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<Service | null>> {
+  const fallback = getLocaleContent(resolveLocale(locale)).services.services.find(s => s.id === id);
+  const request: ContentRequest = { resource: 'service', id, locale };
+  return loadItem(
+    request,
+    () => fetchValidated(request, serviceSchema, fallback),
+    fallback || null,
+    options
+  );
 }
 
 /**
  * Fetch projects section content
  */
-export async function getProjectsContent(): Promise<ProjectsContent> {
-  const cmsContent = await fetchFromCMS<ProjectsContent>('/api/content/projects');
-  return cmsContent || defaultProjects;
+export async function getProjectsContent(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<ProjectsContent>> {
+  const defaults = getLocaleContent(resolveLocale(locale)).projects;
+  const request: ContentRequest = { resource: 'section', section: 'projects', locale };
+  return loadContent(
+    request,
+    () => fetchMerged(request, projectsSchema, defaults, 'projects'),
+    defaults,
+    options
+  );
 }
 
 /**
  * Fetch all projects
  */
-export async function getProjects(): Promise<Project[]> {
-  const cmsContent = await fetchFromCMS<Project[]>('/api/projects');
-  return cmsContent || defaultProjects.projects;
+export async function getProjects(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<Project[]>> {
+  const fallback = getLocaleContent(resolveLocale(locale)).projects.projects;
+  const request: ContentRequest = { resource: 'projects', locale };
+  return loadContent(
+    request,
+    () => fetchValidated(request, projectsListSchema, fallback),
+    fallback,
+    options
+  );
 }
 
 /**
  * Fetch featured projects
  */
-export async function getFeaturedProjects(): Promise<Project[]> {
-  const cmsContent = await fetchFromCMS<Project[]>('/api/projects?featured=true');
-  if (cmsContent) return cmsContent;
-  
-  return defaultProjects.projects.filter(p => p.featured);
+export async function getFeaturedProjects(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<Project[]>> {
+  const fallback = getLocaleContent(resolveLocale(locale)).projects.projects.filter(p => p.featured);
+  const request: ContentRequest = { resource: 'projects', featured: true, locale };
+  return loadContent(
+    request,
+    () => fetchValidated(request, projectsListSchema, fallback),
+    fallback,
+    options
+  );
 }
 
 /**
  * Fetch a single project by slug
  */
-export async function getProjectBySlug(slug: string): Promise<Project | null> {
-  const cmsContent = await fetchFromCMS<Project>(`/api/projects/${slug}`);
-  if (cmsContent) return cmsContent;
-  
-  return defaultProjects.projects.find(p => p.slug === slug) || null;
+export async function getProjectBySlug(
+  slug: string,
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<Project | null>> {
+  const fallback = getLocaleContent(resolveLocale(locale)).projects.projects.find(p => p.slug === slug);
+  const request: ContentRequest = { resource: 'project', slug, locale };
+  return loadItem(
+    request,
+    () => fetchValidated(request, projectSchema, fallback),
+    fallback || null,
+    options
+  );
 }
 
 /**
@@ -238,54 +772,357 @@ export async function getProjectBySlug(slug: string): Promise<Project | null> {
  */
 export async function getProjectsPaginated(
   page: number = 1,
-  pageSize: number = 10
-): Promise<PaginatedResponse<Project>> {
-  const cmsContent = await fetchFromCMS<PaginatedResponse<Project>>(
-    `/api/projects?page=${page}&pageSize=${pageSize}`
+  pageSize: number = 10,
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<PaginatedResponse<Project>>> {
+  // Paginate the default projects locally, like the CMS would
+  const projects = [...getLocaleContent(resolveLocale(locale)).projects.projects]
+    .sort((a, b) => a.order - b.order);
+  const fallback = paginate(projects, page, pageSize);
+
+  const request: ContentRequest = { resource: 'projectsPage', page, pageSize, locale };
+  return loadContent(
+    request,
+    () => fetchValidated(request, paginatedProjectsSchema),
+    fallback,
+    options
   );
-  
-  if (cmsContent) return cmsContent;
-  
-  // Return default projects with fake pagination
-  const projects = defaultProjects.projects;
-  return {
-    data: projects,
-    pagination: {
-      page: 1,
-      pageSize: projects.length,
-      totalItems: projects.length,
-      totalPages: 1,
-    },
-  };
 }
 
 /**
  * Fetch contact section content
  */
-export async function getContactContent(): Promise<ContactContent> {
-  const cmsContent = await fetchFromCMS<ContactContent>('/api/content/contact');
-  return cmsContent || defaultContact;
+export async function getContactContent(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<ContactContent>> {
+  const defaults = getLocaleContent(resolveLocale(locale)).contact;
+  const request: ContentRequest = { resource: 'section', section: 'contact', locale };
+  return loadContent(
+    request,
+    () => fetchMerged(request, contactSchema, defaults, 'contact'),
+    defaults,
+    options
+  );
 }
 
 /**
  * Fetch footer content
  */
-export async function getFooterContent(): Promise<FooterContent> {
-  const cmsContent = await fetchFromCMS<FooterContent>('/api/content/footer');
-  return cmsContent || defaultFooter;
+export async function getFooterContent(
+  { locale, ...options }: ContentOptions = {}
+): Promise<ContentResult<FooterContent>> {
+  const defaults = getLocaleContent(resolveLocale(locale)).footer;
+  const request: ContentRequest = { resource: 'section', section: 'footer', locale };
+  return loadContent(
+    request,
+    () => fetchMerged(request, footerSchema, defaults, 'footer'),
+    defaults,
+    options
+  );
+}
+
+// ============================================
+// CACHE
+// ============================================
+
+/**
+ * Get site content synchronously from the cache, if available.
+ * Lets the UI render cached content on the first paint of repeat visits.
+ */
+export function getCachedSiteContent(locale?: LocaleCode): SiteContent | null {
+  if (!isCMSEnabled() || !CMS_CONFIG.cache.enabled) return null;
+
+  const defaults = getLocaleContent(resolveLocale(locale));
+  const request: ContentRequest = { resource: 'site', locale };
+  const endpoint = buildEndpoint(request);
+  const cached = readCache(endpoint);
+  if (!cached || !isServable(cached, getCachePolicy(request))) return null;
+
+  try {
+    const data = cmsAdapter.transform(request, cached.data);
+    const merged = deepMerge(defaults, data, CMS_CONFIG.merge, '');
+    return validateResponse(endpoint, siteContentSchema, merged, defaults);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Subscribe to content changes found while revalidating a request
+ * in the background. Re-run the matching getter to get the new content.
+ *
+ * @returns Unsubscribe function
+ */
+export function onContentUpdate(request: ContentRequest, listener: () => void): () => void {
+  return subscribeToCache(buildEndpoint(request), () => listener());
+}
+
+/**
+ * Clear cached CMS responses for one request, or all of them.
+ * Shared results are invalidated too, so mounted readers fetch again.
+ */
+export function clearContentCache(request?: ContentRequest): void {
+  const endpoint = request ? buildEndpoint(request) : undefined;
+  clearCache(endpoint);
+  invalidateQueries(endpoint);
+}
+
+// ============================================
+// SHARED RESULTS
+// ============================================
+
+/**
+ * Key under which results for a request are shared (its endpoint)
+ */
+export function getContentKey(request: ContentRequest): string {
+  return buildEndpoint(request);
+}
+
+/**
+ * Latest shared result for a request, if one was loaded
+ */
+export function peekContent<T>(request: ContentRequest): ContentResult<T> | undefined {
+  return getQueryResult<T>(getContentKey(request));
+}
+
+/**
+ * Listen for new shared results for a request. The listener receives
+ * null when the result is invalidated and should be loaded again.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToContent<T>(
+  request: ContentRequest,
+  listener: (result: ContentResult<T> | null) => void
+): () => void {
+  return subscribeToQuery(getContentKey(request), result => listener(result as ContentResult<T> | null));
+}
+
+/**
+ * Mark the shared result for a request (or every request) as outdated,
+ * without clearing the CMS response cache
+ */
+export function invalidateContent(request?: ContentRequest): void {
+  invalidateQueries(request ? getContentKey(request) : undefined);
+}
+
+/**
+ * Successful shared results for some requests, to embed in a prerendered
+ * page. Failed results hold an Error and are left out.
+ */
+export function dehydrateContent(requests: ContentRequest[]): DehydratedContent {
+  const results: DehydratedContent = {};
+  requests.forEach(request => {
+    const result = peekContent(request);
+    if (result?.status === 'ok') results[getContentKey(request)] = result;
+  });
+  return results;
+}
+
+/**
+ * Share results embedded by dehydrateContent(), so the hooks reading them
+ * render the prerendered content on their first render. They were loaded
+ * at build time, so they are stored as outdated and reloaded on first read.
+ */
+export function hydrateContent(results: DehydratedContent): void {
+  Object.entries(results).forEach(([key, result]) => {
+    if (result.status !== 'ok') return;
+    setQueryResult(key, result);
+    invalidateQueries(key);
+  });
 }
 
 // ============================================
 // INQUIRY SUBMISSION
 // ============================================
 
+interface SubmitInquiryOptions extends UploadOptions {
+  /** Files for the inquiry's attachments, keyed by FormField.name */
+  files?: InquiryFiles;
+}
+
 /**
- * Submit a contact inquiry
+ * Key identifying one inquiry across attempts (Idempotency-Key header)
+ */
+function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Multipart body for an inquiry with files: the inquiry as JSON in an
+ * `inquiry` part, and each file in a part named after its field
+ */
+function buildInquiryFormData(inquiry: NewInquiry, files: InquiryFiles): FormData {
+  const body = new FormData();
+  body.append('inquiry', new Blob([JSON.stringify(inquiry)], { type: 'application/json' }));
+
+  Object.entries(files).forEach(([field, fieldFiles]) => {
+    fieldFiles.forEach(file => body.append(field, file, file.name));
+  });
+  return body;
+}
+
+/**
+ * Attach a fresh challenge token, if a challenge provider is configured
+ */
+async function withChallenge(
+  inquiry: NewInquiry,
+  key: string,
+  signal?: AbortSignal
+): Promise<NewInquiry> {
+  if (!challengeProvider) return inquiry;
+
+  const token = await challengeProvider.getToken({ key, signal });
+  return {
+    ...inquiry,
+    spamCheck: {
+      fillTimeMs: inquiry.spamCheck?.fillTimeMs ?? 0,
+      challenge: { provider: challengeProvider.name, token },
+    },
+  };
+}
+
+/**
+ * Send an inquiry once. Inquiries with files are sent as multipart/form-data.
+ */
+async function sendInquiry(
+  unsolved: NewInquiry,
+  files: InquiryFiles,
+  options: PostOptions & { idempotencyKey: string }
+): Promise<PostResponse<InquirySubmission>> {
+  let inquiry: NewInquiry;
+  try {
+    inquiry = await withChallenge(unsolved, options.idempotencyKey, options.signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+
+    console.error('Inquiry challenge failed:', error);
+    if (error instanceof ChallengeUnsupportedError) {
+      // Not queued: this browser will never solve it
+      return {
+        success: false,
+        data: null as unknown as InquirySubmission,
+        error: 'We could not verify your request in this browser. Please try another browser or email us instead.',
+      };
+    }
+
+    // Challenge services usually fail on connectivity, so try again later
+    return {
+      success: false,
+      data: null as unknown as InquirySubmission,
+      error: 'We could not verify your request. Please try again.',
+      retryable: true,
+    };
+  }
+
+  const hasFiles = Object.values(files).some(fieldFiles => fieldFiles.length > 0);
+
+  // Local mode echoes the payload, so keep it as JSON there
+  if (hasFiles && isCMSEnabled()) {
+    return postToCMS<FormData, InquirySubmission>(
+      '/api/inquiries',
+      buildInquiryFormData(inquiry, files),
+      options
+    );
+  }
+  return postToCMS<typeof inquiry, InquirySubmission>('/api/inquiries', inquiry, options);
+}
+
+/**
+ * Submit a contact inquiry.
+ * If it can't be sent now (offline, timeout, server error), it is queued
+ * and resent later (see resendQueuedInquiries); the response then has
+ * `queued: true`. An inquiry refused as one too many (429) is not queued:
+ * the response has `rateLimited: true` and the server's `retryAfterMs`.
  */
 export async function submitInquiry(
-  inquiry: Omit<InquirySubmission, 'id' | 'createdAt' | 'status'>
+  inquiry: NewInquiry,
+  { files = {}, ...options }: SubmitInquiryOptions = {}
 ): Promise<ApiResponse<InquirySubmission>> {
-  return postToCMS<typeof inquiry, InquirySubmission>('/api/inquiries', inquiry);
+  const idempotencyKey = createIdempotencyKey();
+
+  const result: PostResponse<InquirySubmission> = isOffline()
+    ? { success: false, data: null as unknown as InquirySubmission, error: 'You are offline.', retryable: true }
+    : await sendInquiry(inquiry, files, { ...options, idempotencyKey });
+
+  const { retryable, ...response } = result;
+  // The server was reached and refused it; sending it later is up to the user
+  if (!retryable || response.rateLimited) return response;
+
+  const queued = await putQueuedInquiry({
+    key: idempotencyKey,
+    inquiry,
+    files,
+    queuedAt: Date.now(),
+    attempts: 1,
+    status: 'pending',
+    error: result.error,
+    retryAt: getRetryAt(result),
+  });
+
+  return queued ? { ...response, queued: true } : response;
+}
+
+/**
+ * When a queued inquiry may be resent, if the server asked to wait
+ */
+function getRetryAt({ retryAfterMs }: ApiResponse<unknown>): number | undefined {
+  return retryAfterMs !== undefined ? Date.now() + retryAfterMs : undefined;
+}
+
+let resending: Promise<void> | null = null;
+
+async function resendQueue(): Promise<void> {
+  const entries = await getQueuedInquiries();
+
+  for (const entry of entries) {
+    if (entry.status === 'failed') continue;
+    // Rate limited: keep the rest in order until the server is ready
+    if (entry.retryAt !== undefined && entry.retryAt > Date.now()) return;
+
+    const attempt: QueuedInquiry = { ...entry, status: 'sending', attempts: entry.attempts + 1 };
+    await putQueuedInquiry(attempt);
+
+    const result = await sendInquiry(entry.inquiry, entry.files, { idempotencyKey: entry.key });
+    if (result.success) {
+      await removeQueuedInquiry(entry.key);
+    } else if (result.retryable) {
+      // Still unreachable: keep the rest for the next attempt
+      await putQueuedInquiry({ ...attempt, status: 'pending', error: result.error, retryAt: getRetryAt(result) });
+      return;
+    } else {
+      await putQueuedInquiry({ ...attempt, status: 'failed', error: result.error });
+    }
+  }
+}
+
+/**
+ * Resend queued inquiries, oldest first. Concurrent calls share one run.
+ * Called when the browser comes back online and when the page loads.
+ */
+export function resendQueuedInquiries(): Promise<void> {
+  if (isOffline()) return Promise.resolve();
+
+  if (!resending) {
+    resending = resendQueue().finally(() => {
+      resending = null;
+    });
+  }
+  return resending;
+}
+
+/**
+ * Remove a queued inquiry without sending it
+ */
+export function discardQueuedInquiry(key: string): Promise<void> {
+  return removeQueuedInquiry(key);
 }
 
 // ============================================
@@ -314,6 +1151,26 @@ export const contentService = {
   
   // Inquiries
   submitInquiry,
+  resendQueuedInquiries,
+  discardQueuedInquiry,
+  getQueuedInquiries,
+  subscribeToInquiryQueue,
+
+  // Cache
+  getCachedSiteContent,
+  onContentUpdate,
+  clearContentCache,
+
+  // Shared results
+  getContentKey,
+  peekContent,
+  subscribeToContent,
+  invalidateContent,
+  dehydrateContent,
+  hydrateContent,
+
+  // Diagnostics
+  getValidationReports,
 };
 
 export default contentService;
@@ -0,0 +1,94 @@
+/**
+ * CMS Error Types
+ *
+ * Distinct error classes for the ways a CMS request can fail, so callers
+ * can tell a timeout from an HTTP error or an unreadable response.
+ */
+
+export class CMSError extends Error {
+  /** Request path relative to the CMS base URL */
+  endpoint: string;
+
+  constructor(message: string, endpoint: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'CMSError';
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class CMSTimeoutError extends CMSError {
+  timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`CMS request timed out after ${timeoutMs}ms`, endpoint);
+    this.name = 'CMSTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The CMS responded with a non-2xx status
+ */
+export class CMSHttpError extends CMSError {
+  status: number;
+  statusText: string;
+  /** Seconds to wait before retrying, from a Retry-After header */
+  retryAfter?: number;
+
+  constructor(endpoint: string, status: number, statusText: string, retryAfter?: number) {
+    super(`CMS responded with ${status} ${statusText}`.trim(), endpoint);
+    this.name = 'CMSHttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The requested item does not exist in the CMS
+ * (a 404, or an empty result from the adapter)
+ */
+export class CMSNotFoundError extends CMSHttpError {
+  constructor(endpoint: string) {
+    super(endpoint, 404, 'Not Found');
+    this.name = 'CMSNotFoundError';
+  }
+}
+
+/**
+ * The response body could not be parsed as JSON
+ */
+export class CMSParseError extends CMSError {
+  constructor(endpoint: string, cause: unknown) {
+    super('CMS response could not be parsed', endpoint, { cause });
+    this.name = 'CMSParseError';
+  }
+}
+
+/**
+ * The request failed before a response was received (offline, DNS, CORS)
+ */
+export class CMSNetworkError extends CMSError {
+  constructor(endpoint: string, cause: unknown) {
+    super('CMS request failed', endpoint, { cause });
+    this.name = 'CMSNetworkError';
+  }
+}
+
+/**
+ * The request was cancelled by the caller (e.g. component unmounted)
+ */
+export class CMSAbortError extends CMSError {
+  constructor(endpoint: string) {
+    super('CMS request was aborted', endpoint);
+    this.name = 'CMSAbortError';
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof CMSAbortError ||
+    (error instanceof DOMException && error.name === 'AbortError');
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchWithRetry, parseRetryAfter, type RetryPolicy } from './http';
+import { CMSAbortError, CMSNetworkError } from './errors';
+
+const policy: RetryPolicy = { retries: 2, baseDelayMs: 100, maxDelayMs: 1000 };
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function respond(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, headers });
+}
+
+function send(signal?: AbortSignal): Promise<Response> {
+  return fetchWithRetry('https://cms.test/api/content/site', '/api/content/site', {}, {
+    timeoutMs: 5000,
+    retry: policy,
+    signal,
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  fetchMock.mockReset();
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delays in seconds and HTTP dates', () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(parseRetryAfter('120')).toBe(120);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT')).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('fetchWithRetry', () => {
+  it('retries retryable statuses until a response succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(500))
+      .mockResolvedValueOnce(respond(200));
+
+    const request = send();
+    await vi.runAllTimersAsync();
+
+    expect((await request).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last response once the retries are used up', async () => {
+    fetchMock.mockResolvedValue(respond(502));
+
+    const request = send();
+    await vi.runAllTimersAsync();
+
+    expect((await request).status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(policy.retries + 1);
+  });
+
+  it('does not retry other statuses', async () => {
+    fetchMock.mockResolvedValue(respond(400));
+
+    expect((await send()).status).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for a Retry-After within the retry policy', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(429, { 'Retry-After': '1' }))
+      .mockResolvedValueOnce(respond(200));
+
+    const request = send();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await request).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns a response whose Retry-After exceeds the retry policy without waiting', async () => {
+    fetchMock.mockResolvedValue(respond(503, { 'Retry-After': '600' }));
+
+    const response = await send();
+
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('retries network errors and rethrows the last one', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const request = send();
+    const assertion = expect(request).rejects.toBeInstanceOf(CMSNetworkError);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(policy.retries + 1);
+  });
+
+  it('stops waiting between retries when aborted', async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    const controller = new AbortController();
+
+    const request = send(controller.signal);
+    const assertion = expect(request).rejects.toBeInstanceOf(CMSAbortError);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
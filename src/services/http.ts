@@ -0,0 +1,306 @@
+/**
+ * HTTP Helpers
+ *
+ * fetch wrapper used by the content service, adding timeouts,
+ * bounded retries with jittered exponential backoff, cancellation
+ * and typed errors (see errors.ts). Uploads that report progress use
+ * XMLHttpRequest, since fetch has no upload progress events.
+ */
+
+import {
+  CMSAbortError,
+  CMSHttpError,
+  CMSNetworkError,
+  CMSNotFoundError,
+  CMSTimeoutError,
+} from './errors';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RetryPolicy {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Base delay in milliseconds, doubled on every retry */
+  baseDelayMs: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs: number;
+}
+
+export interface RequestOptions {
+  /** Cancels the request (e.g. when a component unmounts) */
+  signal?: AbortSignal;
+}
+
+export interface UploadProgress {
+  /** Bytes sent so far */
+  loaded: number;
+  /** Total bytes to send */
+  total: number;
+}
+
+export interface UploadOptions extends RequestOptions {
+  /** Called as the request body is sent */
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+interface FetchOptions extends RequestOptions {
+  timeoutMs: number;
+  /** Retries are only safe for idempotent requests */
+  retry?: RetryPolicy;
+}
+
+interface SendOptions extends UploadOptions {
+  timeoutMs: number;
+}
+
+// Statuses a Response cannot be constructed with a body for
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// HTTP statuses worth retrying: timeouts, rate limiting and server errors
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Seconds to wait from a Retry-After header (delay in seconds or HTTP date)
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max((date - Date.now()) / 1000, 0);
+}
+
+/**
+ * Whether a response status is worth retrying (timeouts, rate limiting, server errors)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof CMSTimeoutError || error instanceof CMSNetworkError;
+}
+
+/**
+ * Create a CMSHttpError for a non-2xx response, including Retry-After
+ */
+export function httpError(endpoint: string, response: Response): CMSHttpError {
+  if (response.status === 404) {
+    return new CMSNotFoundError(endpoint);
+  }
+
+  return new CMSHttpError(
+    endpoint,
+    response.status,
+    response.statusText,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+}
+
+/**
+ * Delay before the given retry (0-based), using "full jitter":
+ * a random delay between 0 and the exponential backoff cap
+ */
+function backoffDelay(attempt: number, policy: RetryPolicy, error: unknown): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * cap;
+
+  // Never retry sooner than the server asked us to
+  if (error instanceof CMSHttpError && error.retryAfter !== undefined) {
+    return Math.max(jittered, error.retryAfter * 1000);
+  }
+  return jittered;
+}
+
+function sleep(ms: number, endpoint: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CMSAbortError(endpoint));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CMSAbortError(endpoint));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Single fetch attempt with a timeout, linked to the caller's signal
+ */
+async function fetchOnce(
+  url: string,
+  endpoint: string,
+  init: RequestInit,
+  { timeoutMs, signal }: FetchOptions
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw new CMSAbortError(endpoint);
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new CMSTimeoutError(endpoint, timeoutMs);
+    if (signal?.aborted) throw new CMSAbortError(endpoint);
+    throw new CMSNetworkError(endpoint, error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// ============================================
+// ENTRY POINT
+// ============================================
+
+/**
+ * Fetch with timeout, optional retries and cancellation.
+ * Retryable HTTP statuses are retried; the last response is returned as-is,
+ * so callers decide how to handle non-2xx responses (see httpError).
+ * A response whose Retry-After exceeds the policy's maxDelayMs is returned
+ * without retrying, so a request never waits longer than the policy allows.
+ * Throws CMSTimeoutError, CMSNetworkError or CMSAbortError if no response arrives.
+ */
+export async function fetchWithRetry(
+  url: string,
+  endpoint: string,
+  init: RequestInit,
+  options: FetchOptions
+): Promise<Response> {
+  const { retry, signal } = options;
+  const retries = retry?.retries ?? 0;
+
+  for (let attempt = 0; ; attempt++) {
+    let failure: unknown;
+
+    try {
+      const response = await fetchOnce(url, endpoint, init, options);
+      if (!isRetryableStatus(response.status) || !retry || attempt >= retries) {
+        return response;
+      }
+      const error = httpError(endpoint, response);
+      // Give up rather than wait longer than the policy allows
+      if (error.retryAfter !== undefined && error.retryAfter * 1000 > retry.maxDelayMs) {
+        return response;
+      }
+      failure = error;
+    } catch (error) {
+      if (!retry || attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      failure = error;
+    }
+
+    await sleep(backoffDelay(attempt, retry, failure), endpoint, signal);
+  }
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+}
+
+/**
+ * Send a request with upload progress events. Never retried, like other
+ * non-idempotent requests; resolves with the response as a fetch Response.
+ * Throws CMSTimeoutError, CMSNetworkError or CMSAbortError if no response arrives.
+ */
+export function sendWithProgress(
+  url: string,
+  endpoint: string,
+  init: RequestInit & { body: XMLHttpRequestBodyInit },
+  { timeoutMs, signal, onUploadProgress }: SendOptions
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CMSAbortError(endpoint));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.open(init.method ?? 'POST', url);
+    xhr.timeout = timeoutMs;
+    xhr.withCredentials = init.credentials === 'include';
+    new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress?.({ loaded: event.loaded, total: event.total });
+      }
+    };
+    xhr.onload = () => {
+      settle();
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText;
+      resolve(new Response(body, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new CMSNetworkError(endpoint, new Error('Upload failed')));
+    };
+    xhr.ontimeout = () => {
+      settle();
+      reject(new CMSTimeoutError(endpoint, timeoutMs));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new CMSAbortError(endpoint));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(init.body);
+  });
+}
+
+/**
+ * Reject when the signal aborts, without cancelling the underlying promise.
+ * Used to stop waiting on requests shared between callers.
+ */
+export function abortable<T>(promise: Promise<T>, endpoint: string, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CMSAbortError(endpoint));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CMSAbortError(endpoint));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Inquiry Queue
+ *
+ * Keeps inquiries that could not be sent (offline, timeouts, server
+ * errors) in IndexedDB, so they can be resent when the browser is back
+ * online or on the next visit. Each entry keeps the idempotency key of its
+ * first attempt, so resending never creates a duplicate inquiry.
+ */
+
+import type { InquiryFiles, NewInquiry } from '../types/content';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * - pending: waiting to be resent
+ * - sending: being resent (treated as pending if the page closed meanwhile)
+ * - failed:  rejected by the CMS; kept so the visitor learns about it
+ */
+export type QueuedInquiryStatus = 'pending' | 'sending' | 'failed';
+
+export interface QueuedInquiry {
+  /** Idempotency key, sent with every attempt */
+  key: string;
+  inquiry: NewInquiry;
+  /** Attachments; Files are stored as-is in IndexedDB */
+  files: InquiryFiles;
+  /** When the inquiry was queued (ms since epoch) */
+  queuedAt: number;
+  attempts: number;
+  status: QueuedInquiryStatus;
+  /** Error of the last attempt */
+  error?: string;
+  /** Not resent before this time (ms since epoch), as the server asked */
+  retryAt?: number;
+}
+
+type QueueListener = (entries: QueuedInquiry[]) => void;
+
+// ============================================
+// STORAGE
+// ============================================
+
+const DB_NAME = 'triji_inquiry_queue';
+const DB_VERSION = 1;
+const STORE_NAME = 'inquiries';
+
+const listeners = new Set<QueueListener>();
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open the queue database once; resolves to null where IndexedDB is
+ * unavailable (server rendering, some private browsing modes)
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (databasePromise) return databasePromise;
+
+  if (typeof indexedDB === 'undefined') {
+    databasePromise = Promise.resolve(null);
+    return databasePromise;
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    }
+  };
+
+  databasePromise = promisify(request).catch(error => {
+    console.warn('Inquiry queue unavailable:', error);
+    return null;
+  });
+  return databasePromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const database = await openDatabase();
+  if (!database) return null;
+
+  try {
+    return await promisify(run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } catch (error) {
+    console.warn('Inquiry queue operation failed:', error);
+    return null;
+  }
+}
+
+async function notify(): Promise<void> {
+  if (listeners.size === 0) return;
+
+  const entries = await getQueuedInquiries();
+  listeners.forEach(listener => listener(entries));
+}
+
+// ============================================
+// QUEUE
+// ============================================
+
+/**
+ * Queued inquiries, oldest first
+ */
+export async function getQueuedInquiries(): Promise<QueuedInquiry[]> {
+  const entries = await withStore<QueuedInquiry[]>('readonly', store => store.getAll());
+  return (entries ?? []).sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/**
+ * Add or update a queued inquiry; returns false if it could not be stored
+ */
+export async function putQueuedInquiry(entry: QueuedInquiry): Promise<boolean> {
+  const stored = await withStore('readwrite', store => store.put(entry));
+  await notify();
+  return stored !== null;
+}
+
+/**
+ * Remove a queued inquiry, e.g. once it has been sent or is discarded
+ */
+export async function removeQueuedInquiry(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+  await notify();
+}
+
+/**
+ * Listen for changes to the queue
+ * @returns Unsubscribe function
+ */
+export function subscribeToInquiryQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { fetchQuery, getQueryResult, invalidateQueries } from './queryCache';
+import type { ContentResult } from '../types/content';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(resolvePromise => { resolve = resolvePromise; });
+  return { promise, resolve };
+}
+
+const ok = (data: string): ContentResult<string> => ({ status: 'ok', data });
+
+describe('queryCache', () => {
+  it('shares one request between concurrent reads', async () => {
+    let calls = 0;
+    const loader = async () => ok(`result ${++calls}`);
+
+    const [first, second] = await Promise.all([
+      fetchQuery('shared', loader, { staleTime: 1000 }),
+      fetchQuery('shared', loader, { staleTime: 1000 }),
+    ]);
+
+    expect(calls).toBe(1);
+    expect(first).toBe(second);
+  });
+
+  it('drops a result that was requested before an invalidation', async () => {
+    const stale = deferred<ContentResult<string>>();
+    const staleRead = fetchQuery('invalidated', () => stale.promise, { staleTime: 1000 });
+
+    invalidateQueries('invalidated');
+    const fresh = await fetchQuery('invalidated', async () => ok('fresh'), { staleTime: 1000 });
+
+    stale.resolve(ok('stale'));
+    await staleRead;
+
+    expect(fresh.data).toBe('fresh');
+    expect(getQueryResult('invalidated')?.data).toBe('fresh');
+  });
+
+  it('fetches again after invalidating every query', async () => {
+    const stale = deferred<ContentResult<string>>();
+    const staleRead = fetchQuery('all', () => stale.promise, { staleTime: 1000 });
+
+    invalidateQueries();
+    stale.resolve(ok('stale'));
+    await staleRead;
+
+    expect(getQueryResult('all')).toBeUndefined();
+    await expect(fetchQuery('all', async () => ok('fresh'), { staleTime: 1000 }))
+      .resolves.toMatchObject({ data: 'fresh' });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Query Cache
+ *
+ * Shares content results between every hook and ContentProvider, keyed by
+ * endpoint. Concurrent reads of the same key share one in-flight request,
+ * and every subscriber sees the latest result. A request that was started
+ * before the key was invalidated is not stored when it completes.
+ *
+ * This sits above contentCache.ts: that cache stores raw CMS responses,
+ * this one stores the validated results handed to components.
+ */
+
+import type { ContentResult } from '../types/content';
+import { abortable } from './http';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface QueryEntry {
+  result: ContentResult<unknown>;
+  /** When the result was stored (ms since epoch) */
+  updatedAt: number;
+  /** Set by invalidateQueries; the next read fetches again */
+  invalidated: boolean;
+}
+
+interface InFlightQuery {
+  promise: Promise<ContentResult<unknown>>;
+  /** Generation of the key when the request started */
+  generation: number;
+}
+
+export interface QueryOptions {
+  /** Time in milliseconds a result is reused without calling the loader */
+  staleTime: number;
+  /** Stops waiting for the result; the shared request still completes */
+  signal?: AbortSignal;
+}
+
+/**
+ * Called with the new result, or null when the query is invalidated
+ */
+export type QueryListener = (result: ContentResult<unknown> | null) => void;
+
+// ============================================
+// STATE
+// ============================================
+
+const queries = new Map<string, QueryEntry>();
+const inFlight = new Map<string, InFlightQuery>();
+const listeners = new Map<string, Set<QueryListener>>();
+// Bumped by every invalidation of a key
+const generations = new Map<string, number>();
+
+function getGeneration(key: string): number {
+  return generations.get(key) ?? 0;
+}
+
+function notify(key: string, result: ContentResult<unknown> | null): void {
+  listeners.get(key)?.forEach(listener => listener(result));
+}
+
+function isReusable(entry: QueryEntry, staleTime: number): boolean {
+  // Failed results are shared with concurrent readers, but never reused
+  return (
+    !entry.invalidated &&
+    entry.result.status !== 'error' &&
+    Date.now() - entry.updatedAt < staleTime
+  );
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Latest result stored under a key, if any
+ */
+export function getQueryResult<T>(key: string): ContentResult<T> | undefined {
+  return queries.get(key)?.result as ContentResult<T> | undefined;
+}
+
+/**
+ * Store a result and notify subscribers
+ */
+export function setQueryResult<T>(key: string, result: ContentResult<T>): void {
+  queries.set(key, { result, updatedAt: Date.now(), invalidated: false });
+  notify(key, result);
+}
+
+/**
+ * Return the stored result while it is reusable; otherwise run the loader,
+ * sharing a single call between concurrent readers of the same key
+ */
+export function fetchQuery<T>(
+  key: string,
+  loader: () => Promise<ContentResult<T>>,
+  { staleTime, signal }: QueryOptions
+): Promise<ContentResult<T>> {
+  const entry = queries.get(key);
+  if (entry && isReusable(entry, staleTime)) {
+    return Promise.resolve(entry.result as ContentResult<T>);
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    const generation = getGeneration(key);
+    const query: InFlightQuery = {
+      generation,
+      promise: loader()
+        .then(result => {
+          // Results requested before an invalidation are outdated
+          if (getGeneration(key) === generation) setQueryResult(key, result);
+          return result;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === query) inFlight.delete(key);
+        }),
+    };
+    inFlight.set(key, query);
+    pending = query;
+  }
+
+  return abortable(pending.promise as Promise<ContentResult<T>>, key, signal);
+}
+
+/**
+ * Mark one query, or every query, as outdated. Requests in flight are
+ * detached, so the next read fetches again and their results are dropped.
+ * Subscribers are notified with null so mounted readers can fetch again.
+ */
+export function invalidateQueries(key?: string): void {
+  const keys = key !== undefined ? [key] : [...new Set([...queries.keys(), ...inFlight.keys()])];
+
+  keys.forEach(queryKey => {
+    const entry = queries.get(queryKey);
+    if (entry) entry.invalidated = true;
+    generations.set(queryKey, getGeneration(queryKey) + 1);
+    inFlight.delete(queryKey);
+    notify(queryKey, null);
+  });
+}
+
+// ============================================
+// SUBSCRIPTIONS
+// ============================================
+
+/**
+ * Listen for new results and invalidations of a key
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToQuery(key: string, listener: QueryListener): () => void {
+  const keyListeners = listeners.get(key) ?? new Set<QueryListener>();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) listeners.delete(key);
+  };
+}
@@ -6,6 +6,37 @@
  * ensure the API responses match these types.
  */
 
+// ============================================
+// LOCALIZATION TYPES
+// ============================================
+
+/** BCP 47 language tag, e.g. 'en' or 'pt-BR' */
+export type LocaleCode = string;
+
+/** Writing direction of a locale's script */
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  code: LocaleCode;
+  /** Name of the language in that language, e.g. 'Español' */
+  label: string;
+  /** 'rtl' for right-to-left scripts such as Arabic and Hebrew */
+  direction: TextDirection;
+}
+
+/** Every field optional, at any depth */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Translation of the default content into another locale. Untranslated
+ * fields keep the default locale's content; list items are matched by id.
+ */
+export type ContentTranslation = DeepPartial<SiteContent>;
+
 // ============================================
 // SITE-WIDE CONTENT TYPES
 // ============================================
@@ -13,9 +44,12 @@
 export interface SiteMetadata {
   siteName: string;
   siteDescription: string;
-  siteUrl?: string;
+  siteUrl?: string; // Origin the site is served from, for canonical and Open Graph URLs
   favicon?: string;
   ogImage?: string;
+  title?: string; // Home page title, defaults to siteName
+  titleTemplate?: string; // Title of other pages, '{title} | {siteName}' by default
+  twitterHandle?: string; // e.g. '@triji', for twitter:site
 }
 
 export interface NavigationLink {
@@ -33,6 +67,11 @@ export interface NavigationContent {
     label: string;
     href: string;
   };
+  /** Accessible label of the language switcher */
+  localeSwitcherLabel?: string;
+  /** Accessible labels of the mobile menu button */
+  openMenuLabel?: string;
+  closeMenuLabel?: string;
 }
 
 // ============================================
@@ -108,6 +147,7 @@ export interface Project {
   description: string;
   shortDescription?: string;
   image?: ProjectImage;
+  gallery?: ProjectImage[]; // Additional images for the project page
   technologies?: string[];
   liveUrl?: string;
   githubUrl?: string;
@@ -116,27 +156,118 @@ export interface Project {
   publishedAt?: string;
 }
 
+export interface ProjectsPagination {
+  pageSize: number;
+  // Numbered pages, a "load more" button, or loading on scroll
+  mode: 'pages' | 'load-more' | 'infinite';
+}
+
 export interface ProjectsContent {
   sectionTag: string;
   sectionTitle: string;
   sectionSubtitle: string;
   projects: Project[];
   placeholderText?: string;
+  searchPlaceholder?: string; // Projects search input
+  noResultsText?: string; // Shown when no project matches the filters
+  pagination?: ProjectsPagination; // Show all projects at once if omitted
+  labels?: ProjectsLabels;
+}
+
+/**
+ * Interface text of the projects section and project pages.
+ * Words in braces, e.g. {total}, are replaced when shown.
+ */
+export interface ProjectsLabels {
+  search: string; // Accessible label of the search input
+  featuredOnly: string;
+  clearFilters: string;
+  category: string;
+  technology: string;
+  results: string; // {shown} of {total} projects
+  pageNavigation: string; // Accessible label of the page buttons
+  previousPage: string;
+  nextPage: string;
+  page: string; // Accessible label of a page button: {page}
+  loadMore: string;
+  loading: string;
+  pageError: string;
+  viewDetails: string;
+  viewLive: string;
+  backToProjects: string;
+  loadingProject: string;
+  projectError: string;
+  tryAgain: string;
+  notFoundTitle: string;
+  notFoundMessage: string;
+  published: string; // {date}
+  technologies: string;
+  showImage: string; // {index} of {total}
 }
 
 // ============================================
 // CONTACT SECTION
 // ============================================
 
+export type ValidationRuleName =
+  | 'required'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'email'
+  | 'phone'
+  | 'oneOf'
+  | 'maxFiles'
+  | 'maxFileSize'
+  | 'accept';
+
+/**
+ * Error messages per rule; {label} is replaced with the field label
+ * and {value} with the rule's parameter (e.g. the minimum length)
+ */
+export type ValidationMessages = Partial<Record<ValidationRuleName, string>>;
+
+/**
+ * Validation rules for a form field, authored in the CMS.
+ * `required` and the field type (email, phone, select options) add
+ * their rules automatically.
+ */
+export interface FieldValidation {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string; // Regular expression the trimmed value must match
+  email?: boolean;
+  phone?: boolean;
+  oneOf?: string[]; // Allowed values, defaults to `options` for select fields
+  // File fields
+  maxFiles?: number; // Defaults to 1
+  maxFileSize?: number; // Bytes per file, defaults to 10 MB
+  accept?: string[]; // MIME types ("application/pdf", "image/*") or extensions (".docx")
+  // Custom error messages per rule for this field
+  messages?: ValidationMessages;
+}
+
 export interface FormField {
   id: string;
   name: string;
   label: string;
-  type: 'text' | 'email' | 'textarea' | 'select' | 'phone';
+  type: 'text' | 'email' | 'textarea' | 'select' | 'phone' | 'file';
   placeholder: string;
   required: boolean;
   options?: string[]; // For select fields
   rows?: number; // For textarea
+  validation?: FieldValidation;
+}
+
+/**
+ * A step of the contact form wizard. Fields not listed in any step are
+ * shown on the last step.
+ */
+export interface FormStep {
+  id: string;
+  title: string;
+  description?: string;
+  fields: string[]; // FormField.name of the fields on this step, in order
 }
 
 export interface ContactContent {
@@ -144,11 +275,58 @@ export interface ContactContent {
   sectionTitle: string;
   sectionSubtitle: string;
   formFields: FormField[];
+  // Optional: show the form as a wizard, one step at a time, then a review step
+  steps?: FormStep[];
+  reviewTitle?: string; // Title of the review step, defaults to 'Review'
   submitButton: {
     label: string;
   };
   successMessage: string;
   errorMessage: string;
+  // Optional: published contact details, for search engines (structured data)
+  details?: ContactDetails;
+  // Error messages per rule for every field, see FieldValidation.messages
+  validationMessages?: ValidationMessages;
+  labels?: ContactLabels;
+}
+
+/**
+ * Interface text of the contact form.
+ * Words in braces, e.g. {count}, are replaced when shown.
+ */
+export interface ContactLabels {
+  progress: string; // Accessible label of the wizard's step list
+  stepCount: string; // {step} of {total}
+  back: string;
+  next: string;
+  edit: string;
+  editStep: string; // Accessible label of a review step's edit button: {step}
+  notProvided: string;
+  sending: string;
+  queued: string;
+  sendingQueued: string;
+  waitingOne: string;
+  waitingMany: string; // {count}
+  queueSent: string;
+  queueFailed: string; // {error}
+  dismiss: string;
+  tooFast: string;
+  rateLimited: string; // {time}
+  second: string; // {count}
+  seconds: string; // {count}
+  minutes: string; // {time}, e.g. 4:05
+  draftSaved: string; // {date}
+  restoreDraft: string;
+  discardDraft: string;
+  uploadProgress: string;
+  dropFiles: string; // Shown in file fields without a placeholder
+  removeFile: string; // {name}
+}
+
+export interface ContactDetails {
+  email?: string;
+  phone?: string;
+  contactType?: string; // schema.org contactType, defaults to 'customer support'
 }
 
 // ============================================
@@ -174,16 +352,53 @@ export interface FooterContent {
 // INQUIRY/CONTACT SUBMISSION
 // ============================================
 
+// Form values keyed by FormField.name
+export type InquiryFields = Record<string, string>;
+
+// Files chosen in the form's file fields, keyed by FormField.name
+export type InquiryFiles = Record<string, File[]>;
+
+/**
+ * A file sent with an inquiry; the file itself is sent as a multipart part
+ * named after its field
+ */
+export interface InquiryAttachment {
+  field: string; // FormField.name
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes
+}
+
+/**
+ * Anti-spam data sent with an inquiry, for the backend to verify
+ */
+export interface InquirySpamCheck {
+  /** Time from showing the form to submitting it, in ms */
+  fillTimeMs: number;
+  /** Token from the configured challenge provider, if any */
+  challenge?: {
+    provider: string;
+    token: string;
+  };
+}
+
 export interface InquirySubmission {
   id?: string;
-  name: string;
-  email: string;
-  subject: string;
-  message: string;
+  // Well-known fields, copied from `fields` when the form has them
+  name?: string;
+  email?: string;
+  subject?: string;
+  message?: string;
+  // Every submitted value, including fields added in the CMS
+  fields: InquiryFields;
+  attachments?: InquiryAttachment[];
+  spamCheck?: InquirySpamCheck;
   createdAt?: string;
   status?: 'new' | 'read' | 'replied' | 'archived';
 }
 
+export type NewInquiry = Omit<InquirySubmission, 'id' | 'createdAt' | 'status'>;
+
 // ============================================
 // COMPLETE SITE CONTENT
 // ============================================
@@ -196,6 +411,17 @@ export interface SiteContent {
   projects: ProjectsContent;
   contact: ContactContent;
   footer: FooterContent;
+  labels?: SiteLabels;
+}
+
+/**
+ * Interface text shared by every page
+ */
+export interface SiteLabels {
+  loading: string;
+  notFoundTitle: string;
+  notFoundMessage: string;
+  backToHome: string;
 }
 
 // ============================================
@@ -207,6 +433,12 @@ export interface ApiResponse<T> {
   success: boolean;
   message?: string;
   error?: string;
+  /** Not sent yet, but saved to be resent automatically (inquiries only) */
+  queued?: boolean;
+  /** The server asked to wait this long before sending again (Retry-After) */
+  retryAfterMs?: number;
+  /** The server refused the request as one too many (429) */
+  rateLimited?: boolean;
 }
 
 export interface PaginatedResponse<T> {
@@ -218,3 +450,22 @@ export interface PaginatedResponse<T> {
     totalPages: number;
   };
 }
+
+/**
+ * Outcome of a content request:
+ * - ok: content came from the CMS
+ * - fallback: the CMS is disabled, default content is shown
+ * - error: the CMS request failed, default content is shown
+ */
+export type ContentResult<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'fallback'; data: T; reason: 'cms-disabled' }
+  | { status: 'error'; data: T; error: Error };
+
+export type ContentStatus = ContentResult<unknown>['status'];
+
+/**
+ * Content results keyed by request (contentService.getContentKey()),
+ * as embedded in prerendered pages
+ */
+export type DehydratedContent = Record<string, ContentResult<unknown>>;
@@ -0,0 +1,108 @@
+/**
+ * Form Drafts
+ *
+ * Saves unsent form values in localStorage so they survive an accidental
+ * reload. Drafts are keyed by the form definition: when the CMS changes the
+ * fields, drafts saved for the old form are no longer offered.
+ */
+
+import type { FormField, InquiryFields } from '../types/content';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface FormDraft {
+  values: InquiryFields;
+  /** When the draft was last saved (ms since epoch) */
+  savedAt: number;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+const STORAGE_PREFIX = 'triji_form_draft:';
+
+function getStorage(): Storage | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+function isFormDraft(value: unknown): value is FormDraft {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as FormDraft).values === 'object' &&
+    (value as FormDraft).values !== null &&
+    typeof (value as FormDraft).savedAt === 'number'
+  );
+}
+
+function hasValues(values: InquiryFields): boolean {
+  return Object.values(values).some(value => value.trim() !== '');
+}
+
+/**
+ * Storage key for a form, derived from its field names and types
+ */
+export function getDraftKey(formId: string, fields: FormField[]): string {
+  const signature = fields.map(field => `${field.name}:${field.type}`).join(',');
+  return `${formId}:${signature}`;
+}
+
+/**
+ * Remove the draft for a form
+ */
+export function clearDraft(key: string): void {
+  try {
+    getStorage()?.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Read a draft, or null if there is none or it is older than maxAgeMs.
+ * Expired and unreadable drafts are removed.
+ */
+export function readDraft(key: string, maxAgeMs: number): FormDraft | null {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const stored = storage.getItem(STORAGE_PREFIX + key);
+    if (!stored) return null;
+
+    const draft: unknown = JSON.parse(stored);
+    if (isFormDraft(draft) && Date.now() - draft.savedAt <= maxAgeMs && hasValues(draft.values)) {
+      return draft;
+    }
+  } catch {
+    // Fall through and remove the unreadable draft
+  }
+
+  clearDraft(key);
+  return null;
+}
+
+/**
+ * Save form values as a draft; an empty form removes the draft instead
+ */
+export function writeDraft(key: string, values: InquiryFields): void {
+  if (!hasValues(values)) {
+    clearDraft(key);
+    return;
+  }
+
+  const draft: FormDraft = { values, savedAt: Date.now() };
+  try {
+    getStorage()?.setItem(STORAGE_PREFIX + key, JSON.stringify(draft));
+  } catch {
+    // Ignore storage errors (quota exceeded, private mode)
+  }
+}
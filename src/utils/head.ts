@@ -0,0 +1,271 @@
+/**
+ * Document Head
+ *
+ * Builds the document's <title>, meta description, Open Graph and Twitter
+ * tags, canonical URL and favicon from the site metadata, with overrides
+ * for the current page, and applies them to the document (or renders them
+ * to HTML when prerendering), along with the page's structured data
+ * (see structuredData.ts).
+ */
+
+import type { LocaleCode, Project, SiteMetadata } from '../types/content';
+import type { StructuredData, StructuredDataIssue } from './structuredData';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Head overrides for a page. Anything left out comes from the site metadata.
+ */
+export interface PageHead {
+  /** Page title, inserted into metadata.titleTemplate */
+  title?: string;
+  description?: string;
+  /** Image for link previews */
+  image?: string;
+  /** Open Graph type (default 'website') */
+  type?: 'website' | 'article';
+  /** Ask search engines not to index the page, e.g. for 404s */
+  noIndex?: boolean;
+  /** Project the page is about, described in its structured data */
+  project?: Project;
+}
+
+export interface HeadMeta {
+  /** `name` attribute (description, twitter:*) */
+  name?: string;
+  /** `property` attribute (og:*) */
+  property?: string;
+  content: string;
+}
+
+export interface HeadLink {
+  rel: string;
+  href: string;
+  type?: string;
+}
+
+export interface DocumentHead {
+  title: string;
+  meta: HeadMeta[];
+  links: HeadLink[];
+  /** schema.org data, written as a JSON-LD script */
+  structuredData?: StructuredData;
+  /** Problems that kept structured data nodes out of the head */
+  structuredDataIssues?: StructuredDataIssue[];
+}
+
+// ============================================
+// BUILDING
+// ============================================
+
+const DEFAULT_TITLE_TEMPLATE = '{title} | {siteName}';
+
+const FAVICON_TYPES: Record<string, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  ico: 'image/x-icon',
+};
+
+/**
+ * URL resolved against an origin; unchanged if it can't be resolved
+ * (e.g. a relative URL without an origin)
+ */
+export function absoluteUrl(url: string, origin: string): string {
+  try {
+    return new URL(url, origin).href;
+  } catch {
+    return url;
+  }
+}
+
+function getFaviconType(href: string): string | undefined {
+  const extension = href.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension ? FAVICON_TYPES[extension] : undefined;
+}
+
+/**
+ * Title of a page: the home page title for pages without one, otherwise
+ * the page title in metadata.titleTemplate
+ */
+export function getPageTitle(metadata: SiteMetadata, title?: string): string {
+  if (!title) return metadata.title || metadata.siteName;
+
+  return (metadata.titleTemplate || DEFAULT_TITLE_TEMPLATE)
+    .replace('{title}', title)
+    .replace('{siteName}', metadata.siteName);
+}
+
+/**
+ * Head for a page
+ *
+ * @param metadata Site metadata
+ * @param page Overrides for the current page
+ * @param location Path of the page, and the origin to resolve URLs against
+ *   when metadata.siteUrl is not set
+ */
+export function getDocumentHead(
+  metadata: SiteMetadata,
+  page: PageHead,
+  location: { path: string; origin: string; locale?: LocaleCode }
+): DocumentHead {
+  const origin = metadata.siteUrl || location.origin;
+  const title = getPageTitle(metadata, page.title);
+  const description = page.description || metadata.siteDescription;
+  const url = absoluteUrl(location.path, origin);
+  const image = page.image || metadata.ogImage;
+
+  const meta: HeadMeta[] = [
+    { name: 'description', content: description },
+    { property: 'og:type', content: page.type || 'website' },
+    { property: 'og:site_name', content: metadata.siteName },
+    { property: 'og:title', content: title },
+    { property: 'og:description', content: description },
+    { property: 'og:url', content: url },
+    { name: 'twitter:card', content: image ? 'summary_large_image' : 'summary' },
+    { name: 'twitter:title', content: title },
+    { name: 'twitter:description', content: description },
+  ];
+  if (location.locale) {
+    // Open Graph locales use underscores: pt_BR
+    meta.push({ property: 'og:locale', content: location.locale.replace('-', '_') });
+  }
+  if (image) {
+    const imageUrl = absoluteUrl(image, origin);
+    meta.push({ property: 'og:image', content: imageUrl }, { name: 'twitter:image', content: imageUrl });
+  }
+  if (metadata.twitterHandle) {
+    meta.push({ name: 'twitter:site', content: metadata.twitterHandle });
+  }
+  if (page.noIndex) {
+    meta.push({ name: 'robots', content: 'noindex' });
+  }
+
+  const links: HeadLink[] = [{ rel: 'canonical', href: url }];
+  if (metadata.favicon) {
+    links.push({ rel: 'icon', href: metadata.favicon, type: getFaviconType(metadata.favicon) });
+  }
+
+  return { title, meta, links };
+}
+
+// ============================================
+// APPLYING
+// ============================================
+
+// Marks elements added by applyDocumentHead(), which removes them again
+// when a later head leaves them out. Elements from index.html are updated.
+const MANAGED_ATTRIBUTE = 'data-head';
+
+function metaSelector(meta: HeadMeta): string {
+  return meta.property
+    ? `meta[property="${meta.property}"]`
+    : `meta[name="${meta.name}"]`;
+}
+
+function linkSelector(link: HeadLink): string {
+  return `link[rel="${link.rel}"]`;
+}
+
+const STRUCTURED_DATA_SELECTOR = 'script[type="application/ld+json"]';
+
+// Escape '<' so content can't close the script tag
+function serializeStructuredData(data: StructuredData): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+function upsert(doc: Document, selector: string, tagName: 'meta' | 'link' | 'script'): Element {
+  let element = doc.head.querySelector(selector);
+  if (!element) {
+    element = doc.createElement(tagName);
+    element.setAttribute(MANAGED_ATTRIBUTE, '');
+    doc.head.appendChild(element);
+  }
+  return element;
+}
+
+/**
+ * Write a head into the document, replacing the tags of the previous one
+ */
+export function applyDocumentHead(head: DocumentHead, doc: Document = document): void {
+  doc.title = head.title;
+  const current = new Set<Element>();
+
+  for (const meta of head.meta) {
+    const element = upsert(doc, metaSelector(meta), 'meta');
+    if (meta.property) element.setAttribute('property', meta.property);
+    if (meta.name) element.setAttribute('name', meta.name);
+    element.setAttribute('content', meta.content);
+    current.add(element);
+  }
+
+  for (const link of head.links) {
+    const element = upsert(doc, linkSelector(link), 'link');
+    element.setAttribute('rel', link.rel);
+    element.setAttribute('href', link.href);
+    if (link.type) {
+      element.setAttribute('type', link.type);
+    } else {
+      element.removeAttribute('type');
+    }
+    current.add(element);
+  }
+
+  if (head.structuredData) {
+    const element = upsert(doc, STRUCTURED_DATA_SELECTOR, 'script');
+    element.setAttribute('type', 'application/ld+json');
+    element.textContent = serializeStructuredData(head.structuredData);
+    current.add(element);
+  }
+
+  doc.head.querySelectorAll(`[${MANAGED_ATTRIBUTE}]`).forEach(element => {
+    if (!current.has(element)) element.remove();
+  });
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderAttributes(attributes: Record<string, string | undefined>): string {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+    .join('');
+}
+
+/**
+ * HTML for a head, for prerendered pages. The tags are marked like those
+ * added by applyDocumentHead(), so the app takes them over once loaded.
+ */
+export function renderDocumentHead(head: DocumentHead): string {
+  const managed = { [MANAGED_ATTRIBUTE]: '' };
+
+  return [
+    `<title>${escapeHtml(head.title)}</title>`,
+    ...head.meta.map(meta => `<meta${renderAttributes({
+      name: meta.name,
+      property: meta.property,
+      content: meta.content,
+      ...managed,
+    })} />`),
+    ...head.links.map(link => `<link${renderAttributes({
+      rel: link.rel,
+      href: link.href,
+      type: link.type,
+      ...managed,
+    })} />`),
+    ...(head.structuredData
+      ? [`<script type="application/ld+json"${renderAttributes(managed)}>${serializeStructuredData(head.structuredData)}</script>`]
+      : []),
+  ].join('\n    ');
+}
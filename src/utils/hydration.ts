@@ -0,0 +1,45 @@
+/**
+ * Hydration Data
+ *
+ * Prerendered pages embed the content they were rendered with in a JSON
+ * script tag, so the app can hydrate the page with the same content
+ * instead of loading it again.
+ */
+
+import type { DehydratedContent, LocaleCode, SiteContent } from '../types/content';
+
+export interface HydrationData {
+  /** Path the page was rendered for */
+  path: string;
+  locale: LocaleCode;
+  content: SiteContent;
+  /** Shared results read by the page, e.g. the full project entry */
+  results: DehydratedContent;
+}
+
+const SCRIPT_ID = 'hydration-data';
+
+/**
+ * Script tag holding hydration data, for the end of the body
+ */
+export function serializeHydrationData(data: HydrationData): string {
+  // Escape '<' so content can't close the script tag
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  return `<script id="${SCRIPT_ID}" type="application/json">${json}</script>`;
+}
+
+/**
+ * Hydration data embedded in the page, or null for pages that weren't
+ * prerendered (or whose data can't be read)
+ */
+export function readHydrationData(): HydrationData | null {
+  const script = document.getElementById(SCRIPT_ID);
+  if (!script?.textContent) return null;
+
+  try {
+    const data = JSON.parse(script.textContent) as HydrationData;
+    return data && typeof data === 'object' && data.content ? data : null;
+  } catch {
+    return null;
+  }
+}
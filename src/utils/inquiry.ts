@@ -0,0 +1,39 @@
+/**
+ * Inquiry Utilities
+ *
+ * Builds the inquiry payload sent to the CMS from the contact form values.
+ */
+
+import type { InquiryAttachment, InquiryFields, InquiryFiles, NewInquiry } from '../types/content';
+
+// Fields copied to the top level of the payload for existing backends
+const WELL_KNOWN_FIELDS = ['name', 'email', 'subject', 'message'] as const;
+
+/**
+ * Create an inquiry from form values keyed by FormField.name.
+ * Every value is sent in `fields`; well-known ones are also sent top-level.
+ * Files are described in `attachments` and sent alongside the inquiry.
+ */
+export function buildInquiry(values: InquiryFields, files: InquiryFiles = {}): NewInquiry {
+  const inquiry: NewInquiry = { fields: { ...values } };
+
+  const attachments: InquiryAttachment[] = Object.entries(files).flatMap(([field, fieldFiles]) =>
+    fieldFiles.map(file => ({
+      field,
+      name: file.name,
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+    }))
+  );
+  if (attachments.length > 0) {
+    inquiry.attachments = attachments;
+  }
+
+  WELL_KNOWN_FIELDS.forEach(name => {
+    if (values[name] !== undefined) {
+      inquiry[name] = values[name];
+    }
+  });
+
+  return inquiry;
+}
@@ -0,0 +1,56 @@
+/**
+ * Locale Utilities
+ *
+ * Matching of preferred locales (e.g. from Accept-Language) against the
+ * supported locales. Browser detection is in localePreference.ts.
+ */
+
+import type { LocaleCode } from '../types/content';
+
+function languageOf(code: string): string {
+  return code.split('-')[0].toLowerCase();
+}
+
+/**
+ * Best supported locale for a list of preferred locales, most preferred
+ * first. A preference matches exactly, or by language ('es-MX' matches
+ * 'es', 'pt' matches 'pt-BR'). Returns null if none match.
+ */
+export function matchLocale(
+  preferred: readonly string[],
+  supported: readonly LocaleCode[]
+): LocaleCode | null {
+  for (const code of preferred) {
+    const exact = supported.find(locale => locale.toLowerCase() === code.toLowerCase());
+    if (exact) return exact;
+
+    const sameLanguage = supported.find(locale => languageOf(locale) === languageOf(code));
+    if (sameLanguage) return sameLanguage;
+  }
+  return null;
+}
+
+/**
+ * Locales from an Accept-Language header, most preferred first
+ *
+ * @example
+ * parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5') // ['fr-CH', 'fr', 'en']
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [code, ...params] = part.trim().split(';');
+      const quality = params
+        .map(param => param.trim())
+        .find(param => param.startsWith('q='));
+      const q = quality ? Number(quality.slice(2)) : 1;
+      return { code: code.trim(), q: Number.isFinite(q) ? q : 0, index };
+    })
+    .filter(({ code, q }) => code !== '' && code !== '*' && q > 0)
+    // Stable: equal weights keep the header's order
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ code }) => code);
+}
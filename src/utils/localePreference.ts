@@ -0,0 +1,56 @@
+/**
+ * Locale Preference
+ *
+ * Picks the locale to show a visitor from the supported locales: a locale
+ * they chose before (stored in localStorage), then their browser languages
+ * (the same list the browser sends as Accept-Language).
+ */
+
+import type { LocaleCode } from '../types/content';
+import { matchLocale } from './locale';
+
+const STORAGE_KEY = 'triji_locale';
+
+function getStorage(): Storage | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Locale the visitor chose before, if any
+ */
+export function readStoredLocale(): string | null {
+  try {
+    return getStorage()?.getItem(STORAGE_KEY) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the visitor's choice for their next visit
+ */
+export function storeLocale(locale: LocaleCode): void {
+  try {
+    getStorage()?.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Ignore storage errors (quota exceeded, private mode)
+  }
+}
+
+/**
+ * Locale to show: the stored choice, else the browser's languages, else the
+ * fallback
+ */
+export function detectLocale(supported: readonly LocaleCode[], fallback: LocaleCode): LocaleCode {
+  const stored = readStoredLocale();
+  const browser = typeof navigator === 'undefined'
+    ? []
+    : navigator.languages?.length ? navigator.languages : [navigator.language];
+
+  return matchLocale([...(stored ? [stored] : []), ...browser.filter(Boolean)], supported) ?? fallback;
+}
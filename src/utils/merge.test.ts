@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { deepMerge } from './merge';
+
+const base = {
+  title: 'Projects',
+  tags: ['react', 'node'],
+  items: [
+    { id: 'a', title: 'Alpha', meta: { year: 2023, draft: false } },
+    { id: 'b', title: 'Beta', meta: { year: 2024, draft: false } },
+  ],
+};
+
+describe('deepMerge', () => {
+  it('merges nested objects and keeps base values the override leaves out', () => {
+    const result = deepMerge(base, { title: 'Work', extra: true, items: undefined });
+
+    expect(result).toEqual({ ...base, title: 'Work', extra: true });
+  });
+
+  it('treats null in the override as missing', () => {
+    expect(deepMerge(base, { title: null, tags: null }).title).toBe('Projects');
+    expect(deepMerge(base, null)).toBe(base);
+  });
+
+  it('does not mutate either input', () => {
+    const override = { items: [{ id: 'a', meta: { draft: true } }] };
+    const snapshot = structuredClone({ base, override });
+
+    deepMerge(base, override, { arrays: 'merge-by-id' });
+
+    expect({ base, override }).toEqual(snapshot);
+  });
+
+  it('replaces arrays by default', () => {
+    const result = deepMerge(base, { tags: ['go'], items: [{ id: 'c', title: 'Gamma' }] });
+
+    expect(result.tags).toEqual(['go']);
+    expect(result.items).toEqual([{ id: 'c', title: 'Gamma' }]);
+  });
+
+  it('appends override items with the append strategy', () => {
+    expect(deepMerge(base, { tags: ['go'] }, { arrays: 'append' }).tags).toEqual(['react', 'node', 'go']);
+  });
+
+  it('deep merges items sharing an id and appends new ones with merge-by-id', () => {
+    const result = deepMerge(
+      base,
+      { items: [{ id: 'b', meta: { draft: true } }, { id: 'c', title: 'Gamma' }, { title: 'No id' }] },
+      { arrays: 'merge-by-id' }
+    );
+
+    expect(result.items).toEqual([
+      { id: 'a', title: 'Alpha', meta: { year: 2023, draft: false } },
+      { id: 'b', title: 'Beta', meta: { year: 2024, draft: true } },
+      { id: 'c', title: 'Gamma' },
+      { title: 'No id' },
+    ]);
+  });
+
+  it('matches items on a custom id key', () => {
+    const result = deepMerge(
+      { links: [{ slug: 'home', label: 'Home' }] },
+      { links: [{ slug: 'home', label: 'Inicio' }] },
+      { arrays: 'merge-by-id', idKey: 'slug' }
+    );
+
+    expect(result.links).toEqual([{ slug: 'home', label: 'Inicio' }]);
+  });
+
+  it('uses per-path strategies over the default strategy', () => {
+    const result = deepMerge(
+      base,
+      { tags: ['go'], items: [{ id: 'a', title: 'Alfa' }] },
+      { arrays: 'merge-by-id', paths: { tags: 'replace' } }
+    );
+
+    expect(result.tags).toEqual(['go']);
+    expect(result.items.map(item => item.title)).toEqual(['Alfa', 'Beta']);
+  });
+
+  it('looks up strategies for arrays inside merged items by their path', () => {
+    const content = {
+      fields: [
+        { id: 'budget', label: 'Budget', options: ['Small', 'Large'] },
+        { id: 'name', label: 'Name' },
+      ],
+    };
+    const result = deepMerge(
+      content,
+      { fields: [{ id: 'budget', label: 'Presupuesto', options: ['Pequeño', 'Grande'] }] },
+      { arrays: 'merge-by-id', paths: { 'fields.options': 'replace' } }
+    );
+
+    expect(result.fields).toEqual([
+      { id: 'budget', label: 'Presupuesto', options: ['Pequeño', 'Grande'] },
+      { id: 'name', label: 'Name' },
+    ]);
+  });
+
+  it('resolves per-path strategies relative to the base path', () => {
+    const section = { projects: [{ id: 'a', title: 'Alpha' }] };
+    const override = { projects: [{ id: 'a', featured: true }] };
+    const options = { paths: { 'projects.projects': 'merge-by-id' as const } };
+
+    expect(deepMerge(section, override, options, 'projects').projects).toEqual([
+      { id: 'a', title: 'Alpha', featured: true },
+    ]);
+    expect(deepMerge(section, override, options).projects).toEqual([{ id: 'a', featured: true }]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Deep Merge Utilities
+ *
+ * Merges partial content (e.g. from a CMS) over a complete base object
+ * (e.g. default content), so that anything the override does not supply
+ * is taken from the base.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * How to combine two arrays found at the same path:
+ * - replace: use the override array as-is
+ * - append: base items followed by override items
+ * - merge-by-id: deep merge items sharing an id, append new ones
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'merge-by-id';
+
+export interface MergeOptions {
+  /** Strategy for arrays without a path-specific strategy (default: replace) */
+  arrays?: ArrayMergeStrategy;
+  /** Per-path strategies, e.g. { 'projects.projects': 'merge-by-id' } */
+  paths?: Record<string, ArrayMergeStrategy>;
+  /** Key used to match items for merge-by-id (default: id) */
+  idKey?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+function mergeArrays(
+  base: unknown[],
+  override: unknown[],
+  path: string,
+  options: MergeOptions
+): unknown[] {
+  const strategy = options.paths?.[path] ?? options.arrays ?? 'replace';
+
+  switch (strategy) {
+    case 'append':
+      return [...base, ...override];
+
+    case 'merge-by-id': {
+      const idKey = options.idKey ?? 'id';
+      const result = [...base];
+
+      for (const item of override) {
+        const id = isPlainObject(item) ? item[idKey] : undefined;
+        const index = id === undefined
+          ? -1
+          : result.findIndex(existing => isPlainObject(existing) && existing[idKey] === id);
+
+        if (index === -1) {
+          result.push(item);
+        } else {
+          result[index] = mergeValue(result[index], item, path, options);
+        }
+      }
+      return result;
+    }
+
+    default:
+      return override;
+  }
+}
+
+function mergeValue(base: unknown, override: unknown, path: string, options: MergeOptions): unknown {
+  // Missing values in the override keep the base value
+  if (override === undefined || override === null) {
+    return base;
+  }
+
+  if (Array.isArray(base) && Array.isArray(override)) {
+    return mergeArrays(base, override, path, options);
+  }
+
+  if (isPlainObject(base) && isPlainObject(override)) {
+    const result: Record<string, unknown> = { ...base };
+    for (const key of Object.keys(override)) {
+      result[key] = mergeValue(base[key], override[key], joinPath(path, key), options);
+    }
+    return result;
+  }
+
+  return override;
+}
+
+// ============================================
+// ENTRY POINT
+// ============================================
+
+/**
+ * Deep merge an override over a base value.
+ * Neither input is mutated. `null` in the override is treated as missing.
+ *
+ * @param basePath Path of `base` within a larger document, used to look up
+ * per-path array strategies (e.g. 'projects' when merging ProjectsContent)
+ */
+export function deepMerge<T>(
+  base: T,
+  override: unknown,
+  options: MergeOptions = {},
+  basePath: string = ''
+): T {
+  return mergeValue(base, override, basePath, options) as T;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { paginate } from './pagination';
+
+const items = ['a', 'b', 'c', 'd', 'e'];
+
+describe('paginate', () => {
+  it('slices one page with its pagination metadata', () => {
+    expect(paginate(items, 2, 2)).toEqual({
+      data: ['c', 'd'],
+      pagination: { page: 2, pageSize: 2, totalItems: 5, totalPages: 3 },
+    });
+  });
+
+  it('returns a short last page', () => {
+    expect(paginate(items, 3, 2).data).toEqual(['e']);
+  });
+
+  it('returns an empty page past the end', () => {
+    expect(paginate(items, 4, 2)).toEqual({
+      data: [],
+      pagination: { page: 4, pageSize: 2, totalItems: 5, totalPages: 3 },
+    });
+  });
+
+  it('clamps invalid pages and page sizes to 1', () => {
+    expect(paginate(items, 0, 2).pagination.page).toBe(1);
+    expect(paginate(items, -3, 2).pagination.page).toBe(1);
+    expect(paginate(items, Number.NaN, 2).pagination.page).toBe(1);
+    expect(paginate(items, 1, 0)).toEqual({
+      data: ['a'],
+      pagination: { page: 1, pageSize: 1, totalItems: 5, totalPages: 5 },
+    });
+  });
+
+  it('rounds fractional pages and page sizes down', () => {
+    expect(paginate(items, 2.7, 2.9).pagination).toMatchObject({ page: 2, pageSize: 2 });
+  });
+
+  it('reports one page for an empty list', () => {
+    expect(paginate([], 1, 10)).toEqual({
+      data: [],
+      pagination: { page: 1, pageSize: 10, totalItems: 0, totalPages: 1 },
+    });
+  });
+});
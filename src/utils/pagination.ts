@@ -0,0 +1,27 @@
+/**
+ * Pagination Utilities
+ *
+ * Local pagination matching the CMS paginated responses, used when the
+ * CMS is disabled and by the mock CMS, so paging behaves the same offline.
+ */
+
+import type { PaginatedResponse } from '../types/content';
+
+/**
+ * Slice one page out of a list. Pages are 1-based; pages past the end
+ * are empty, like a CMS returns them.
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): PaginatedResponse<T> {
+  const currentPage = Math.max(Math.floor(page) || 1, 1);
+  const size = Math.max(Math.floor(pageSize) || 1, 1);
+
+  return {
+    data: items.slice((currentPage - 1) * size, currentPage * size),
+    pagination: {
+      page: currentPage,
+      pageSize: size,
+      totalItems: items.length,
+      totalPages: Math.max(Math.ceil(items.length / size), 1),
+    },
+  };
+}
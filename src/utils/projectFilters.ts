@@ -0,0 +1,167 @@
+/**
+ * Project Filters
+ *
+ * Filtering, search and facet counts for the Projects section, and their
+ * query-string form so filtered views can be shared:
+ *
+ *   ?q=dashboard&category=Web+Application&tech=React&tech=Node.js&featured=true
+ *
+ * Values within a facet are combined with OR, facets with AND.
+ */
+
+import type { Project } from '../types/content';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ProjectFilters {
+  /** Free-text search over title and description */
+  query: string;
+  categories: string[];
+  technologies: string[];
+  featuredOnly: boolean;
+}
+
+export interface FacetOption {
+  value: string;
+  /** Number of projects with this value */
+  count: number;
+}
+
+export interface ProjectFacets {
+  categories: FacetOption[];
+  technologies: FacetOption[];
+}
+
+export const emptyProjectFilters: ProjectFilters = {
+  query: '',
+  categories: [],
+  technologies: [],
+  featuredOnly: false,
+};
+
+// Query-string parameter per filter
+const PARAMS = {
+  query: 'q',
+  categories: 'category',
+  technologies: 'tech',
+  featuredOnly: 'featured',
+} as const;
+
+// ============================================
+// FILTERING
+// ============================================
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function matchesQuery(project: Project, query: string): boolean {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const text = normalize(
+    [project.title, project.shortDescription, project.description].filter(Boolean).join(' ')
+  );
+  return terms.every(term => text.includes(term));
+}
+
+function matchesAny(values: string[], selected: string[]): boolean {
+  if (selected.length === 0) return true;
+
+  const wanted = new Set(selected.map(normalize));
+  return values.some(value => wanted.has(normalize(value)));
+}
+
+export function hasActiveFilters(filters: ProjectFilters): boolean {
+  return (
+    filters.query.trim() !== '' ||
+    filters.categories.length > 0 ||
+    filters.technologies.length > 0 ||
+    filters.featuredOnly
+  );
+}
+
+/**
+ * Projects matching every active filter, in their original order
+ */
+export function filterProjects(projects: Project[], filters: ProjectFilters): Project[] {
+  return projects.filter(project =>
+    (!filters.featuredOnly || project.featured) &&
+    matchesAny([project.category], filters.categories) &&
+    matchesAny(project.technologies ?? [], filters.technologies) &&
+    matchesQuery(project, filters.query)
+  );
+}
+
+function countValues(values: string[]): FacetOption[] {
+  const counts = new Map<string, FacetOption>();
+
+  values.forEach(value => {
+    const key = normalize(value);
+    if (!key) return;
+
+    const option = counts.get(key);
+    if (option) {
+      option.count++;
+    } else {
+      counts.set(key, { value: value.trim(), count: 1 });
+    }
+  });
+
+  return [...counts.values()].sort((a, b) => a.value.localeCompare(b.value));
+}
+
+/**
+ * Category and technology options with project counts, sorted by name
+ */
+export function getProjectFacets(projects: Project[]): ProjectFacets {
+  return {
+    categories: countValues(projects.map(project => project.category)),
+    technologies: countValues(projects.flatMap(project => project.technologies ?? [])),
+  };
+}
+
+// ============================================
+// QUERY STRING
+// ============================================
+
+function readList(params: URLSearchParams, name: string): string[] {
+  return params
+    .getAll(name)
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read filters from a query string; unrelated parameters are ignored
+ */
+export function parseProjectFilters(search: string): ProjectFilters {
+  const params = new URLSearchParams(search);
+  const featured = params.get(PARAMS.featuredOnly);
+
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    categories: readList(params, PARAMS.categories),
+    technologies: readList(params, PARAMS.technologies),
+    featuredOnly: featured === 'true' || featured === '1',
+  };
+}
+
+/**
+ * Write filters into a query string, keeping unrelated parameters.
+ * Inactive filters are removed, so the default view has a clean URL.
+ */
+export function serializeProjectFilters(filters: ProjectFilters, search: string = ''): string {
+  const params = new URLSearchParams(search);
+  Object.values(PARAMS).forEach(name => params.delete(name));
+
+  if (filters.query.trim()) params.set(PARAMS.query, filters.query);
+  filters.categories.forEach(category => params.append(PARAMS.categories, category));
+  filters.technologies.forEach(tech => params.append(PARAMS.technologies, tech));
+  if (filters.featuredOnly) params.set(PARAMS.featuredOnly, 'true');
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
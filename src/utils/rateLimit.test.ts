@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  EMPTY_RATE_LIMIT,
+  addBlock,
+  addSubmit,
+  getNextAllowedAt,
+  mergeRateLimit,
+  parseRateLimit,
+  pruneRateLimit,
+  readRateLimit,
+  writeRateLimit,
+} from './rateLimit';
+
+const WINDOW = 60000;
+const NOW = 1_000_000;
+
+class MemoryStorage {
+  items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('pruneRateLimit', () => {
+  it('drops submissions that left the window and blocks that ended', () => {
+    const state = { submits: [NOW - WINDOW, NOW - WINDOW + 1, NOW - 10], blockedUntil: NOW };
+
+    expect(pruneRateLimit(state, WINDOW, NOW)).toEqual({
+      submits: [NOW - WINDOW + 1, NOW - 10],
+      blockedUntil: 0,
+    });
+  });
+});
+
+describe('getNextAllowedAt', () => {
+  it('allows a submission right away while the window has room', () => {
+    expect(getNextAllowedAt(EMPTY_RATE_LIMIT, WINDOW, 1, NOW)).toBe(NOW);
+    expect(getNextAllowedAt({ submits: [NOW - 1000], blockedUntil: 0 }, WINDOW, 2, NOW)).toBe(NOW);
+  });
+
+  it('waits until the oldest submission filling the window leaves it', () => {
+    const state = { submits: [NOW - 50000, NOW - 20000, NOW - 5000], blockedUntil: 0 };
+
+    expect(getNextAllowedAt(state, WINDOW, 1, NOW)).toBe(NOW - 5000 + WINDOW);
+    expect(getNextAllowedAt(state, WINDOW, 2, NOW)).toBe(NOW - 20000 + WINDOW);
+    expect(getNextAllowedAt(state, WINDOW, 3, NOW)).toBe(NOW - 50000 + WINDOW);
+  });
+
+  it('slides: a slot frees up as each submission ages out', () => {
+    const state = { submits: [NOW - 50000, NOW - 20000], blockedUntil: 0 };
+
+    expect(getNextAllowedAt(state, WINDOW, 2, NOW + 9999)).toBe(NOW + 10000);
+    expect(getNextAllowedAt(state, WINDOW, 2, NOW + 10000)).toBe(NOW + 10000);
+  });
+
+  it('waits for a block even when the window has room', () => {
+    expect(getNextAllowedAt({ submits: [], blockedUntil: NOW + 30000 }, WINDOW, 3, NOW)).toBe(NOW + 30000);
+  });
+});
+
+describe('addSubmit', () => {
+  it('records the submission and prunes old ones', () => {
+    expect(addSubmit({ submits: [NOW - WINDOW - 1, NOW - 100], blockedUntil: 0 }, WINDOW, NOW)).toEqual({
+      submits: [NOW - 100, NOW],
+      blockedUntil: 0,
+    });
+  });
+});
+
+describe('addBlock', () => {
+  it('blocks submissions without counting one', () => {
+    const state = addBlock({ submits: [NOW - 100], blockedUntil: 0 }, WINDOW, 120000, NOW);
+
+    expect(state).toEqual({ submits: [NOW - 100], blockedUntil: NOW + 120000 });
+    expect(getNextAllowedAt(state, WINDOW, 3, NOW)).toBe(NOW + 120000);
+  });
+
+  it('keeps a longer block in place', () => {
+    expect(addBlock({ submits: [], blockedUntil: NOW + 90000 }, WINDOW, 30000, NOW).blockedUntil)
+      .toBe(NOW + 90000);
+  });
+});
+
+describe('mergeRateLimit', () => {
+  it('combines the submissions of both tabs once, in order, and the later block', () => {
+    const tab = { submits: [NOW - 300, NOW - 100], blockedUntil: NOW + 1000 };
+    const other = { submits: [NOW - 200, NOW - 100], blockedUntil: NOW + 5000 };
+
+    expect(mergeRateLimit(tab, other)).toEqual({
+      submits: [NOW - 300, NOW - 200, NOW - 100],
+      blockedUntil: NOW + 5000,
+    });
+  });
+});
+
+describe('parseRateLimit', () => {
+  it('reads stored state, including the older last-submit format', () => {
+    expect(parseRateLimit(JSON.stringify({ submits: [1, 'x', 2], blockedUntil: 3 })))
+      .toEqual({ submits: [1, 2], blockedUntil: 3 });
+    expect(parseRateLimit(JSON.stringify({ submits: [1] }))).toEqual({ submits: [1], blockedUntil: 0 });
+    expect(parseRateLimit('12345')).toEqual({ submits: [12345], blockedUntil: 0 });
+  });
+
+  it('treats missing or invalid values as no submissions', () => {
+    expect(parseRateLimit(null)).toEqual(EMPTY_RATE_LIMIT);
+    expect(parseRateLimit('{not json')).toEqual(EMPTY_RATE_LIMIT);
+    expect(parseRateLimit('{"submits": 1}')).toEqual(EMPTY_RATE_LIMIT);
+  });
+});
+
+describe('readRateLimit / writeRateLimit', () => {
+  it('stores state in session or local storage', () => {
+    const sessionStorage = new MemoryStorage();
+    const localStorage = new MemoryStorage();
+    vi.stubGlobal('window', { sessionStorage, localStorage });
+    const state = { submits: [NOW], blockedUntil: NOW + 1000 };
+
+    writeRateLimit('session', 'limit', state);
+
+    expect(readRateLimit('session', 'limit')).toEqual(state);
+    expect(readRateLimit('local', 'limit')).toEqual(EMPTY_RATE_LIMIT);
+    expect(localStorage.items.size).toBe(0);
+  });
+
+  it('ignores storage that cannot be used', () => {
+    vi.stubGlobal('window', {
+      get localStorage(): Storage {
+        throw new DOMException('Blocked', 'SecurityError');
+      },
+    });
+
+    expect(() => writeRateLimit('local', 'limit', EMPTY_RATE_LIMIT)).not.toThrow();
+    expect(readRateLimit('local', 'limit')).toEqual(EMPTY_RATE_LIMIT);
+  });
+
+  it('reads nothing during server rendering', () => {
+    expect(readRateLimit('session', 'limit')).toEqual(EMPTY_RATE_LIMIT);
+  });
+});
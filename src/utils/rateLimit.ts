@@ -0,0 +1,140 @@
+/**
+ * Rate Limit State
+ *
+ * Sliding-window bookkeeping for useRateLimit: the times of recent
+ * submissions, plus a block set when the server asks to wait (Retry-After).
+ * Persisted in sessionStorage (this tab) or localStorage (every tab).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RateLimitStorage = 'session' | 'local';
+
+export interface RateLimitState {
+  /** Times of submissions within the window (ms since epoch), oldest first */
+  submits: number[];
+  /** No submissions before this time (ms since epoch); 0 if not blocked */
+  blockedUntil: number;
+}
+
+export const EMPTY_RATE_LIMIT: RateLimitState = { submits: [], blockedUntil: 0 };
+
+// ============================================
+// WINDOW
+// ============================================
+
+/**
+ * Drop submissions that have left the window
+ */
+export function pruneRateLimit(state: RateLimitState, windowMs: number, now: number): RateLimitState {
+  return {
+    submits: state.submits.filter(time => now - time < windowMs),
+    blockedUntil: state.blockedUntil > now ? state.blockedUntil : 0,
+  };
+}
+
+/**
+ * Earliest time another submission is allowed; at or before `now` if one is
+ * allowed already
+ */
+export function getNextAllowedAt(
+  state: RateLimitState,
+  windowMs: number,
+  maxSubmits: number,
+  now: number
+): number {
+  const { submits, blockedUntil } = pruneRateLimit(state, windowMs, now);
+
+  // A slot frees up when the oldest submission that fills the window leaves it
+  const windowFreeAt = submits.length >= maxSubmits
+    ? submits[submits.length - maxSubmits] + windowMs
+    : now;
+  return Math.max(windowFreeAt, blockedUntil, now);
+}
+
+/**
+ * Add a submission made at `now`
+ */
+export function addSubmit(state: RateLimitState, windowMs: number, now: number): RateLimitState {
+  const current = pruneRateLimit(state, windowMs, now);
+  return { ...current, submits: [...current.submits, now] };
+}
+
+/**
+ * Block submissions for `ms` from `now`, keeping a longer block in place
+ */
+export function addBlock(state: RateLimitState, windowMs: number, ms: number, now: number): RateLimitState {
+  const current = pruneRateLimit(state, windowMs, now);
+  return { ...current, blockedUntil: Math.max(current.blockedUntil, now + ms) };
+}
+
+/**
+ * Combine the state of two tabs: every submission either has seen, and the
+ * later block
+ */
+export function mergeRateLimit(a: RateLimitState, b: RateLimitState): RateLimitState {
+  return {
+    submits: [...new Set([...a.submits, ...b.submits])].sort((x, y) => x - y),
+    blockedUntil: Math.max(a.blockedUntil, b.blockedUntil),
+  };
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+function getStorage(storage: RateLimitStorage): Storage | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return storage === 'local' ? window.localStorage : window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a value read from storage or another tab. Older versions stored
+ * only the last submit time.
+ */
+export function toRateLimitState(value: unknown): RateLimitState {
+  if (typeof value === 'number') {
+    return { submits: [value], blockedUntil: 0 };
+  }
+
+  const state = value as Partial<RateLimitState> | null;
+  if (typeof state === 'object' && state !== null && Array.isArray(state.submits)) {
+    return {
+      submits: state.submits.filter((time): time is number => typeof time === 'number'),
+      blockedUntil: typeof state.blockedUntil === 'number' ? state.blockedUntil : 0,
+    };
+  }
+  return EMPTY_RATE_LIMIT;
+}
+
+export function parseRateLimit(stored: string | null): RateLimitState {
+  if (!stored) return EMPTY_RATE_LIMIT;
+
+  try {
+    return toRateLimitState(JSON.parse(stored));
+  } catch {
+    return EMPTY_RATE_LIMIT;
+  }
+}
+
+export function readRateLimit(storage: RateLimitStorage, key: string): RateLimitState {
+  try {
+    return parseRateLimit(getStorage(storage)?.getItem(key) ?? null);
+  } catch {
+    return EMPTY_RATE_LIMIT;
+  }
+}
+
+export function writeRateLimit(storage: RateLimitStorage, key: string, state: RateLimitState): void {
+  try {
+    getStorage(storage)?.setItem(key, JSON.stringify(state));
+  } catch {
+    // Ignore storage errors (quota exceeded, private mode)
+  }
+}
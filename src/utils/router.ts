@@ -0,0 +1,135 @@
+/**
+ * Client-Side Router
+ *
+ * Minimal History API router for the few routes the site has:
+ * - /                  Home page (sections, with #hash anchors)
+ * - /projects/:slug    Project detail page
+ *
+ * Paths are relative to the Vite base URL. Hosting must serve index.html
+ * for unknown paths so deep links to project pages load the app.
+ * When prerendering (no window), the location is set with setServerLocation().
+ */
+
+// ============================================
+// ROUTES
+// ============================================
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'project'; slug: string }
+  | { name: 'not-found'; path: string };
+
+const BASE_URL = import.meta.env.BASE_URL || '/';
+
+// Base path without a trailing slash ('' when served from the root)
+const BASE_PATH = BASE_URL.replace(/\/+$/, '');
+
+/**
+ * Match a pathname (including the base path) to a route
+ */
+export function parseRoute(pathname: string): Route {
+  const path = pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) : pathname;
+  const normalized = `/${path.replace(/^\/+|\/+$/g, '')}`;
+
+  if (normalized === '/' || normalized === '/index.html') {
+    return { name: 'home' };
+  }
+
+  const project = normalized.match(/^\/projects\/([^/]+)$/);
+  if (project) {
+    try {
+      return { name: 'project', slug: decodeURIComponent(project[1]) };
+    } catch {
+      // Malformed escape sequence
+    }
+  }
+
+  return { name: 'not-found', path: normalized };
+}
+
+/**
+ * URL of the home page, optionally at a section anchor (e.g. 'projects')
+ */
+export function homePath(section?: string): string {
+  return `${BASE_PATH}/${section ? `#${section}` : ''}`;
+}
+
+/**
+ * URL of a project detail page
+ */
+export function projectPath(slug: string): string {
+  return `${BASE_PATH}/projects/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Resolve a content href for use on any page: section anchors ('#contact')
+ * point at the home page, everything else is returned unchanged
+ */
+export function resolveHref(href: string): string {
+  if (href === '#') return homePath();
+  return href.startsWith('#') ? homePath(href.slice(1)) : href;
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+type LocationListener = () => void;
+
+const listeners = new Set<LocationListener>();
+
+// Location rendered when there is no window (prerendering)
+let serverLocation = BASE_URL;
+
+/**
+ * Set the URL to render on the server, e.g. '/projects/alpha'
+ */
+export function setServerLocation(url: string): void {
+  serverLocation = url;
+}
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Current path, search and hash, used as the router snapshot
+ */
+export function getLocationKey(): string {
+  if (typeof window === 'undefined') return serverLocation;
+  const { pathname, search, hash } = window.location;
+  return `${pathname}${search}${hash}`;
+}
+
+/**
+ * Navigate to a same-origin URL without reloading the page
+ */
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}): void {
+  if (replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+  }
+  notify();
+}
+
+/**
+ * Listen for navigations (navigate(), back/forward and hash changes)
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToLocation(listener: LocationListener): () => void {
+  if (listeners.size === 0) {
+    window.addEventListener('popstate', notify);
+    window.addEventListener('hashchange', notify);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener('popstate', notify);
+      window.removeEventListener('hashchange', notify);
+    }
+  };
+}
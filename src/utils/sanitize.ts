@@ -5,6 +5,7 @@
  */
 
 import DOMPurify from 'dompurify';
+import type { FormField, InquiryFields } from '../types/content';
 
 /**
  * Sanitize a plain text string (removes all HTML)
@@ -18,7 +19,8 @@ export function sanitizeText(input: string): string {
  * Sanitize HTML content (allows safe HTML tags)
  */
 export function sanitizeHtml(input: string): string {
-  if (!input) return '';
+  // Without a DOM (prerendering) DOMPurify returns its input unchanged
+  if (!input || !DOMPurify.isSupported) return '';
   return DOMPurify.sanitize(input.trim(), {
     ALLOWED_TAGS: ['b', 'i', 'em', 'strong', 'a', 'p', 'br'],
     ALLOWED_ATTR: ['href', 'target', 'rel'],
@@ -29,7 +31,7 @@ export function sanitizeHtml(input: string): string {
  * Sanitize SVG content (for custom icons from CMS)
  */
 export function sanitizeSvg(input: string): string {
-  if (!input) return '';
+  if (!input || !DOMPurify.isSupported) return '';
   return DOMPurify.sanitize(input, {
     USE_PROFILES: { svg: true },
     ALLOWED_TAGS: [
@@ -46,20 +48,13 @@ export function sanitizeSvg(input: string): string {
 }
 
 /**
- * Sanitize inquiry form data
+ * Sanitize inquiry form data. Only values for the form's fields are kept,
+ * so unexpected keys never reach the CMS. File fields have no text value;
+ * their files are sent as attachments.
  */
-export interface InquiryData {
-  name: string;
-  email: string;
-  subject: string;
-  message: string;
-}
-
-export function sanitizeInquiry(data: InquiryData): InquiryData {
-  return {
-    name: sanitizeText(data.name),
-    email: sanitizeText(data.email),
-    subject: sanitizeText(data.subject),
-    message: sanitizeText(data.message),
-  };
+export function sanitizeInquiry(fields: FormField[], data: InquiryFields): InquiryFields {
+  return fields.filter(field => field.type !== 'file').reduce((sanitized, field) => {
+    sanitized[field.name] = sanitizeText(data[field.name] ?? '');
+    return sanitized;
+  }, {} as InquiryFields);
 }
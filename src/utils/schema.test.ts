@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseWithSchema,
+  SchemaValidationError,
+  string,
+} from './schema';
+import { serviceSchema } from '../services/contentSchemas';
+import { defaultSiteContent } from '../content/defaultContent';
+
+interface Item {
+  id: string;
+  label: string;
+  order: number;
+  visible?: boolean;
+}
+
+const itemSchema = object<Item>({
+  id: string(),
+  label: string(),
+  order: number(),
+  visible: optional(boolean()),
+});
+
+describe('parseWithSchema', () => {
+  it('accepts valid values without issues', () => {
+    const value = { id: 'a', label: 'Alpha', order: 1, visible: true };
+
+    expect(parseWithSchema(itemSchema, value)).toEqual({ data: value, issues: [] });
+  });
+
+  it('discards unknown keys and leaves missing optional keys out', () => {
+    const { data, issues } = parseWithSchema(itemSchema, { id: 'a', label: 'Alpha', order: 1, extra: 'x' });
+
+    expect(data).toEqual({ id: 'a', label: 'Alpha', order: 1 });
+    expect(data).not.toHaveProperty('visible');
+    expect(issues).toEqual([]);
+  });
+
+  it('repairs values whose intent is obvious', () => {
+    const { data, issues } = parseWithSchema(itemSchema, { id: 7, label: 'Alpha', order: '3', visible: 'false' });
+
+    expect(data).toEqual({ id: '7', label: 'Alpha', order: 3, visible: false });
+    expect(issues).toEqual([
+      { path: 'id', message: 'expected string, got number', resolution: 'repaired' },
+      { path: 'order', message: 'expected number, got numeric string', resolution: 'repaired' },
+      { path: 'visible', message: 'expected boolean, got string', resolution: 'repaired' },
+    ]);
+  });
+
+  it('does not treat blank or non-finite strings as numbers', () => {
+    expect(() => parseWithSchema(number(), ' ')).toThrow(SchemaValidationError);
+    expect(() => parseWithSchema(number(), 'Infinity')).toThrow(SchemaValidationError);
+    expect(() => parseWithSchema(number(), Number.NaN)).toThrow(SchemaValidationError);
+  });
+
+  it('replaces invalid values with the fallback', () => {
+    const fallback: Item = { id: 'a', label: 'Alpha', order: 1 };
+    const { data, issues } = parseWithSchema(itemSchema, { id: 'a', label: null, order: {} }, fallback);
+
+    expect(data).toEqual(fallback);
+    expect(issues).toEqual([
+      { path: 'label', message: 'expected string, got null', resolution: 'defaulted' },
+      { path: 'order', message: 'expected number, got object', resolution: 'defaulted' },
+    ]);
+  });
+
+  it('drops invalid optional values', () => {
+    const { data, issues } = parseWithSchema(itemSchema, { id: 'a', label: 'Alpha', order: 1, visible: 'yes' });
+
+    expect(data).toEqual({ id: 'a', label: 'Alpha', order: 1 });
+    expect(issues).toEqual([
+      { path: 'visible', message: 'visible: expected boolean, got string', resolution: 'dropped' },
+    ]);
+  });
+
+  it('rejects values outside a set of literals', () => {
+    const schema = oneOf(['web', 'cloud'] as const);
+
+    expect(parseWithSchema(schema, 'cloud').data).toBe('cloud');
+    expect(parseWithSchema(schema, 'mobile', 'web')).toEqual({
+      data: 'web',
+      issues: [{ path: '', message: 'expected one of web, cloud', resolution: 'defaulted' }],
+    });
+  });
+
+  it('throws with the path of an unusable value when there is no fallback', () => {
+    const schema = object<{ item: Item }>({ item: itemSchema });
+
+    expect(() => parseWithSchema(schema, { item: { id: 'a', label: 'Alpha' } }))
+      .toThrow(new SchemaValidationError('item.order', 'expected number, got undefined'));
+    expect(() => parseWithSchema(string(), [])).toThrow('value: expected string, got array');
+  });
+
+  it('drops array items that cannot be validated and keeps the rest', () => {
+    const { data, issues } = parseWithSchema(array(itemSchema), [
+      { id: 'a', label: 'Alpha', order: 1 },
+      { id: 'b', order: 2 },
+      'c',
+    ]);
+
+    expect(data.map(item => item.id)).toEqual(['a']);
+    expect(issues).toEqual([
+      { path: '[1]', message: '[1].label: expected string, got undefined', resolution: 'dropped' },
+      { path: '[2]', message: '[2]: expected object, got string', resolution: 'dropped' },
+    ]);
+  });
+
+  it('defaults array item fields from the fallback item with the same key', () => {
+    const fallback: Item[] = [
+      { id: 'a', label: 'Alpha', order: 1 },
+      { id: 'b', label: 'Beta', order: 2 },
+    ];
+    const { data, issues } = parseWithSchema(
+      array(itemSchema, { matchBy: 'id' }),
+      [{ id: 'b', label: 'Bravo' }, { id: 'c', label: 'Charlie' }],
+      fallback
+    );
+
+    expect(data).toEqual([{ id: 'b', label: 'Bravo', order: 2 }]);
+    expect(issues).toEqual([
+      { path: '[0].order', message: 'expected number, got undefined', resolution: 'defaulted' },
+      { path: '[1]', message: '[1].order: expected number, got undefined', resolution: 'dropped' },
+    ]);
+  });
+
+  it('reports every issue in a CMS response with its full path', () => {
+    const [fallback] = defaultSiteContent.services.services;
+    const { data, issues } = parseWithSchema(
+      serviceSchema,
+      { id: fallback.id, iconType: 'rocket', title: 42, description: fallback.description, order: '2' },
+      fallback
+    );
+
+    expect(data).toEqual({ ...fallback, title: '42', order: 2 });
+    expect(issues.map(({ path, resolution }) => ({ path, resolution }))).toEqual([
+      { path: 'iconType', resolution: 'defaulted' },
+      { path: 'title', resolution: 'repaired' },
+      { path: 'order', resolution: 'repaired' },
+    ]);
+  });
+});
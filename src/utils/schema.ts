@@ -0,0 +1,229 @@
+/**
+ * Runtime Schema Utilities
+ *
+ * Small composable validators for checking untrusted data (e.g. CMS
+ * responses) against the shapes declared in our TypeScript types.
+ *
+ * Each schema receives the raw value and an optional fallback. Invalid
+ * values are repaired when the intent is obvious (e.g. "3" for a number),
+ * otherwise replaced with the fallback. Every change is recorded as a
+ * SchemaIssue so callers can report what was rejected.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SchemaIssue {
+  /** Dotted path of the offending value, e.g. "projects[2].order" */
+  path: string;
+  /** Human readable description of the problem */
+  message: string;
+  /** What was done with the value */
+  resolution: 'repaired' | 'defaulted' | 'dropped';
+}
+
+export type Schema<T> = (
+  value: unknown,
+  fallback: T | undefined,
+  path: string,
+  issues: SchemaIssue[]
+) => T;
+
+export interface SchemaResult<T> {
+  data: T;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Thrown when a value is invalid and no fallback is available.
+ * Caught by optional() and array() to drop the value instead.
+ */
+export class SchemaValidationError extends Error {
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path || 'value'}: ${message}`);
+    this.name = 'SchemaValidationError';
+    this.path = path;
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Use the fallback for an invalid value, or fail if there is none
+ */
+function reject<T>(
+  message: string,
+  fallback: T | undefined,
+  path: string,
+  issues: SchemaIssue[]
+): T {
+  if (fallback === undefined) {
+    throw new SchemaValidationError(path, message);
+  }
+  issues.push({ path, message, resolution: 'defaulted' });
+  return fallback;
+}
+
+// ============================================
+// PRIMITIVES
+// ============================================
+
+export function string(): Schema<string> {
+  return (value, fallback, path, issues) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      issues.push({ path, message: `expected string, got ${describe(value)}`, resolution: 'repaired' });
+      return String(value);
+    }
+    return reject(`expected string, got ${describe(value)}`, fallback, path, issues);
+  };
+}
+
+export function number(): Schema<number> {
+  return (value, fallback, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      issues.push({ path, message: 'expected number, got numeric string', resolution: 'repaired' });
+      return Number(value);
+    }
+    return reject(`expected number, got ${describe(value)}`, fallback, path, issues);
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, fallback, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') {
+      issues.push({ path, message: 'expected boolean, got string', resolution: 'repaired' });
+      return value === 'true';
+    }
+    return reject(`expected boolean, got ${describe(value)}`, fallback, path, issues);
+  };
+}
+
+/**
+ * One of a fixed set of string literals
+ */
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, fallback, path, issues) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) {
+      return value as T;
+    }
+    return reject(`expected one of ${values.join(', ')}`, fallback, path, issues);
+  };
+}
+
+// ============================================
+// COMPOSITES
+// ============================================
+
+/**
+ * Optional value: missing values stay undefined, invalid ones are dropped
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, fallback, path, issues) => {
+    if (value === undefined || value === null) return undefined;
+    try {
+      return schema(value, fallback, path, issues);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      issues.push({ path, message: error.message, resolution: 'dropped' });
+      return undefined;
+    }
+  };
+}
+
+type Shape<T> = { [K in keyof Required<T>]: Schema<T[K]> };
+
+/**
+ * Object with a known set of keys. Unknown keys are discarded.
+ */
+export function object<T extends object>(shape: Shape<T>): Schema<T> {
+  return (value, fallback, path, issues) => {
+    if (!isRecord(value)) {
+      return reject(`expected object, got ${describe(value)}`, fallback, path, issues);
+    }
+
+    const result = {} as T;
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const parsed = shape[key](value[key], fallback?.[key], joinPath(path, key), issues);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+    return result;
+  };
+}
+
+interface ArrayOptions<T> {
+  /** Match items against fallback items by this key for per-field defaults */
+  matchBy?: keyof T;
+}
+
+/**
+ * Array of items. Items that cannot be validated are dropped.
+ */
+export function array<T>(item: Schema<T>, options: ArrayOptions<T> = {}): Schema<T[]> {
+  return (value, fallback, path, issues) => {
+    if (!Array.isArray(value)) {
+      return reject(`expected array, got ${describe(value)}`, fallback, path, issues);
+    }
+
+    const { matchBy } = options;
+    const result: T[] = [];
+
+    value.forEach((entry, index) => {
+      const itemPath = joinPath(path, index);
+      const itemFallback = matchBy && isRecord(entry)
+        ? fallback?.find(candidate => candidate[matchBy] === entry[matchBy as string])
+        : undefined;
+
+      try {
+        result.push(item(entry, itemFallback, itemPath, issues));
+      } catch (error) {
+        if (!(error instanceof SchemaValidationError)) throw error;
+        issues.push({ path: itemPath, message: error.message, resolution: 'dropped' });
+      }
+    });
+
+    return result;
+  };
+}
+
+// ============================================
+// ENTRY POINT
+// ============================================
+
+/**
+ * Validate a value against a schema, collecting every issue found.
+ * Throws SchemaValidationError if the value is unusable and no fallback exists.
+ */
+export function parseWithSchema<T>(
+  schema: Schema<T>,
+  value: unknown,
+  fallback?: T
+): SchemaResult<T> {
+  const issues: SchemaIssue[] = [];
+  const data = schema(value, fallback, '', issues);
+  return { data, issues };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getStructuredData,
+  removeInvalidNodes,
+  validateStructuredData,
+  type StructuredData,
+} from './structuredData';
+import { defaultSiteContent } from '../content/defaultContent';
+import { SUPPORTED_LOCALE_CODES, translateContent } from '../content/locales';
+
+const ORIGIN = 'https://example.com';
+
+describe('getStructuredData', () => {
+  it.each(SUPPORTED_LOCALE_CODES)('builds valid JSON-LD for the %s home page', locale => {
+    const content = translateContent(defaultSiteContent, locale);
+    const data = getStructuredData(content, { origin: ORIGIN, locale, home: true });
+
+    expect(validateStructuredData(data)).toEqual([]);
+    expect(data['@graph'].map(node => node['@type'])).toEqual([
+      'Organization',
+      ...content.services.services.map(() => 'Service'),
+      ...content.projects.projects.map(() => 'CreativeWork'),
+    ]);
+  });
+
+  it.each(SUPPORTED_LOCALE_CODES)('builds valid JSON-LD for a %s project page', locale => {
+    const content = translateContent(defaultSiteContent, locale);
+    const project = content.projects.projects[0];
+    const data = getStructuredData(content, { origin: ORIGIN, locale, project });
+
+    expect(validateStructuredData(data)).toEqual([]);
+    expect(data['@graph']).toHaveLength(2);
+    expect(data['@graph'][1]).toMatchObject({
+      '@type': 'CreativeWork',
+      name: project.title,
+      inLanguage: locale,
+      creator: { '@id': data['@graph'][0]['@id'] },
+    });
+  });
+
+  it('resolves URLs against the origin when the site has no siteUrl', () => {
+    const content = {
+      ...defaultSiteContent,
+      metadata: { ...defaultSiteContent.metadata, siteUrl: undefined },
+    };
+    const data = getStructuredData(content, { origin: ORIGIN, home: true });
+
+    expect(validateStructuredData(data)).toEqual([]);
+    expect(data['@graph'][0].url).toBe(`${ORIGIN}/`);
+  });
+});
+
+describe('validateStructuredData', () => {
+  const valid = (): StructuredData =>
+    getStructuredData(defaultSiteContent, { origin: ORIGIN, home: true });
+
+  it('reports a missing name or url', () => {
+    const data = valid();
+    delete data['@graph'][0].name;
+    delete data['@graph'][0].url;
+
+    expect(validateStructuredData(data)).toEqual([
+      { path: '@graph[0].name', message: 'Organization needs name' },
+      { path: '@graph[0].url', message: 'Organization needs url' },
+    ]);
+  });
+
+  it('reports relative URLs and invalid dates', () => {
+    const data = valid();
+    const work = data['@graph'].find(node => node['@type'] === 'CreativeWork')!;
+    work.url = '/projects/project-alpha';
+    work.datePublished = 'last spring';
+
+    expect(validateStructuredData(data).map(issue => issue.message)).toEqual([
+      'url must be an absolute http(s) URL',
+      'datePublished must be an ISO 8601 date',
+    ]);
+  });
+
+  it('reports references to nodes that are not in the graph', () => {
+    const data = valid();
+    data['@graph'] = data['@graph'].slice(1);
+
+    // metadata.siteUrl takes precedence over the origin
+    expect(validateStructuredData(data)).toContainEqual({
+      path: '@graph[0].provider',
+      message: 'No node with @id https://triji.dev/#organization',
+    });
+  });
+
+  it('reports an invalid contact email', () => {
+    const data = getStructuredData(
+      { ...defaultSiteContent, contact: { ...defaultSiteContent.contact, details: { email: 'not-an-email' } } },
+      { origin: ORIGIN }
+    );
+
+    expect(validateStructuredData(data)).toEqual([
+      { path: '@graph[0].contactPoint.email', message: 'email is not a valid email address' },
+    ]);
+  });
+});
+
+describe('removeInvalidNodes', () => {
+  const valid = (): StructuredData =>
+    getStructuredData(defaultSiteContent, { origin: ORIGIN, home: true });
+
+  it('keeps valid data whole', () => {
+    const data = valid();
+
+    expect(removeInvalidNodes(data)).toEqual({ data, issues: [] });
+  });
+
+  it('leaves out an invalid node and keeps the others', () => {
+    const data = valid();
+    const index = data['@graph'].findIndex(node => node['@type'] === 'CreativeWork');
+    const invalid = data['@graph'][index];
+    invalid.datePublished = 'last spring';
+
+    const result = removeInvalidNodes(data);
+
+    expect(result.issues).toEqual([
+      { path: `@graph[${index}].datePublished`, message: 'datePublished must be an ISO 8601 date' },
+    ]);
+    expect(result.data?.['@graph']).toEqual(data['@graph'].filter(node => node !== invalid));
+    expect(result.data && validateStructuredData(result.data)).toEqual([]);
+  });
+
+  it('leaves out nodes that refer to a node left out', () => {
+    const data = valid();
+    delete data['@graph'][0].name;
+
+    const result = removeInvalidNodes(data);
+
+    expect(result.issues[0]).toEqual({ path: '@graph[0].name', message: 'Organization needs name' });
+    expect(result.issues).toContainEqual({
+      path: '@graph[1].provider',
+      message: 'No node with @id https://triji.dev/#organization',
+    });
+    expect(result.data).toBeUndefined();
+  });
+
+  it('leaves everything out for an unknown @context', () => {
+    const data = { ...valid(), '@context': 'https://example.com' } as unknown as StructuredData;
+
+    expect(removeInvalidNodes(data)).toEqual({
+      issues: [{ path: '@context', message: '@context must be https://schema.org' }],
+    });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Structured Data
+ *
+ * schema.org JSON-LD generated from the site content, written into the
+ * document head with the other tags (see utils/head.ts):
+ * - Organization from metadata and footer.socialLinks, with a ContactPoint
+ *   from contact.details
+ * - Service for each of services.services
+ * - CreativeWork for each project (the home page lists them all, a project
+ *   page describes its own project)
+ *
+ * validateStructuredData() checks the result against the properties search
+ * engines need, and removeInvalidNodes() leaves out the nodes that fail;
+ * prerendering reports their issues as build warnings.
+ */
+
+import type { ContactContent, LocaleCode, Project, Service, SiteContent } from '../types/content';
+import { SUPPORTED_LOCALE_CODES } from '../content/locales';
+import { absoluteUrl } from './head';
+import { homePath, projectPath } from './router';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface StructuredDataNode {
+  '@type': string;
+  '@id'?: string;
+  [property: string]: unknown;
+}
+
+export interface StructuredData {
+  '@context': 'https://schema.org';
+  '@graph': StructuredDataNode[];
+}
+
+export interface StructuredDataIssue {
+  /** Location of the problem, e.g. '@graph[2].url' */
+  path: string;
+  message: string;
+}
+
+export interface StructuredDataResult {
+  /** The valid nodes, or undefined when none are left */
+  data?: StructuredData;
+  /** Problems with the nodes that were left out */
+  issues: StructuredDataIssue[];
+}
+
+interface StructuredDataOptions {
+  /** Origin to resolve URLs against when metadata.siteUrl is not set */
+  origin: string;
+  locale?: LocaleCode;
+  /** Describe every service and project (the home page) */
+  home?: boolean;
+  /** Project the page is about */
+  project?: Project;
+}
+
+// ============================================
+// NODES
+// ============================================
+
+/**
+ * Node without its empty properties (undefined, '' or [])
+ */
+function compact(node: StructuredDataNode): StructuredDataNode {
+  return Object.fromEntries(
+    Object.entries(node).filter(([, value]) =>
+      value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as StructuredDataNode;
+}
+
+function getContactPoint(contact: ContactContent, origin: string): StructuredDataNode {
+  const details = contact.details;
+  return compact({
+    '@type': 'ContactPoint',
+    contactType: details?.contactType || 'customer support',
+    email: details?.email,
+    telephone: details?.phone,
+    url: absoluteUrl(homePath('contact'), origin),
+    availableLanguage: SUPPORTED_LOCALE_CODES,
+  });
+}
+
+function getOrganization(content: SiteContent, origin: string): StructuredDataNode {
+  const { metadata, navigation, footer, contact } = content;
+  const url = absoluteUrl(homePath(), origin);
+
+  return compact({
+    '@type': 'Organization',
+    '@id': `${url}#organization`,
+    name: metadata.siteName,
+    description: metadata.siteDescription,
+    url,
+    logo: navigation.logoImage ? absoluteUrl(navigation.logoImage, origin) : undefined,
+    image: metadata.ogImage ? absoluteUrl(metadata.ogImage, origin) : undefined,
+    sameAs: (footer.socialLinks ?? []).map(link => link.url),
+    contactPoint: getContactPoint(contact, origin),
+  });
+}
+
+function getService(service: Service, organizationId: string, origin: string): StructuredDataNode {
+  const url = absoluteUrl(homePath('services'), origin);
+  return compact({
+    '@type': 'Service',
+    '@id': `${url.split('#')[0]}#${service.id}`,
+    name: service.title,
+    description: service.description,
+    url,
+    provider: { '@id': organizationId },
+  });
+}
+
+function getCreativeWork(
+  project: Project,
+  organizationId: string,
+  origin: string,
+  locale?: LocaleCode
+): StructuredDataNode {
+  const url = absoluteUrl(projectPath(project.slug), origin);
+  return compact({
+    '@type': 'CreativeWork',
+    '@id': url,
+    name: project.title,
+    description: project.shortDescription || project.description,
+    url,
+    genre: project.category,
+    image: project.image?.url ? absoluteUrl(project.image.url, origin) : undefined,
+    keywords: project.technologies?.join(', '),
+    datePublished: project.publishedAt,
+    inLanguage: locale,
+    sameAs: [project.liveUrl, project.githubUrl].filter((link): link is string => Boolean(link)),
+    creator: { '@id': organizationId },
+  });
+}
+
+/**
+ * Structured data for a page: the organization, plus the services and
+ * projects on the home page, or the project on a project page
+ */
+export function getStructuredData(content: SiteContent, options: StructuredDataOptions): StructuredData {
+  const origin = content.metadata.siteUrl || options.origin;
+  const organization = getOrganization(content, origin);
+  const organizationId = organization['@id'] as string;
+  const graph = [organization];
+
+  if (options.home) {
+    const services = [...content.services.services].sort((a, b) => a.order - b.order);
+    const projects = [...content.projects.projects].sort((a, b) => a.order - b.order);
+    graph.push(
+      ...services.map(service => getService(service, organizationId, origin)),
+      ...projects.map(project => getCreativeWork(project, organizationId, origin, options.locale))
+    );
+  }
+  if (options.project) {
+    graph.push(getCreativeWork(options.project, organizationId, origin, options.locale));
+  }
+
+  return { '@context': 'https://schema.org', '@graph': graph };
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+// Properties each type needs to be useful to search engines
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  Organization: ['name', 'url'],
+  ContactPoint: ['contactType'],
+  Service: ['name', 'provider'],
+  CreativeWork: ['name', 'url'],
+};
+
+const URL_PROPERTIES = ['@id', 'url', 'logo', 'image', 'sameAs'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isAbsoluteUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function validateNode(
+  node: StructuredDataNode,
+  path: string,
+  ids: Set<string>,
+  issues: StructuredDataIssue[]
+): void {
+  const type = node['@type'];
+  if (typeof type !== 'string' || !type) {
+    issues.push({ path, message: 'Missing @type' });
+    return;
+  }
+
+  (REQUIRED_PROPERTIES[type] ?? []).forEach(property => {
+    if (node[property] === undefined) {
+      issues.push({ path: `${path}.${property}`, message: `${type} needs ${property}` });
+    }
+  });
+
+  URL_PROPERTIES.forEach(property => {
+    const value = node[property];
+    if (value === undefined) return;
+    const urls = Array.isArray(value) ? value : [value];
+    urls.forEach((url, index) => {
+      if (!isAbsoluteUrl(url)) {
+        const at = Array.isArray(value) ? `${path}.${property}[${index}]` : `${path}.${property}`;
+        issues.push({ path: at, message: `${property} must be an absolute http(s) URL` });
+      }
+    });
+  });
+
+  if (type === 'ContactPoint') {
+    if (!node.email && !node.telephone && !node.url) {
+      issues.push({ path, message: 'ContactPoint needs an email, telephone or url' });
+    }
+    if (node.email !== undefined && !EMAIL_PATTERN.test(String(node.email))) {
+      issues.push({ path: `${path}.email`, message: 'email is not a valid email address' });
+    }
+  }
+
+  if (node.datePublished !== undefined && Number.isNaN(Date.parse(String(node.datePublished)))) {
+    issues.push({ path: `${path}.datePublished`, message: 'datePublished must be an ISO 8601 date' });
+  }
+
+  Object.entries(node).forEach(([property, value]) => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return;
+
+    const child = value as Partial<StructuredDataNode>;
+    if (child['@type'] !== undefined) {
+      validateNode(child as StructuredDataNode, `${path}.${property}`, ids, issues);
+    } else if (typeof child['@id'] === 'string' && !ids.has(child['@id'])) {
+      // A reference to another node in the graph
+      issues.push({ path: `${path}.${property}`, message: `No node with @id ${child['@id']}` });
+    }
+  });
+}
+
+interface GraphEntry {
+  node: StructuredDataNode;
+  /** Location in the original graph, e.g. '@graph[2]' */
+  path: string;
+}
+
+function getGraphEntries(data: StructuredData): GraphEntry[] {
+  return data['@graph'].map((node, index) => ({ node, path: `@graph[${index}]` }));
+}
+
+function validateGraph(entries: GraphEntry[]): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = [];
+
+  const ids = new Set<string>();
+  entries.forEach(({ node, path }) => {
+    const id = node['@id'];
+    if (typeof id !== 'string') return;
+    if (ids.has(id)) issues.push({ path: `${path}.@id`, message: `Duplicate @id ${id}` });
+    ids.add(id);
+  });
+
+  entries.forEach(({ node, path }) => validateNode(node, path, ids, issues));
+  return issues;
+}
+
+/**
+ * Problems with structured data: missing required properties, relative or
+ * malformed URLs, and references to nodes that aren't in the graph.
+ * Returns an empty list for valid data.
+ */
+export function validateStructuredData(data: StructuredData): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = [];
+
+  if (data['@context'] !== 'https://schema.org') {
+    issues.push({ path: '@context', message: '@context must be https://schema.org' });
+  }
+
+  issues.push(...validateGraph(getGraphEntries(data)));
+  return issues;
+}
+
+/**
+ * Structured data without its invalid nodes, so one bad project doesn't
+ * take the organization and the other projects with it. Nodes that refer
+ * to a node left out are left out too. Issue paths point into the original
+ * graph.
+ */
+export function removeInvalidNodes(data: StructuredData): StructuredDataResult {
+  if (data['@context'] !== 'https://schema.org') {
+    return { issues: validateStructuredData(data) };
+  }
+
+  const issues: StructuredDataIssue[] = [];
+  let entries = getGraphEntries(data);
+
+  // Each pass leaves out at least one node, until the rest are valid
+  for (let found = validateGraph(entries); found.length > 0; found = validateGraph(entries)) {
+    const failed = new Set(found.map(issue => issue.path.match(/^@graph\[\d+\]/)?.[0]));
+    issues.push(...found);
+    entries = entries.filter(entry => !failed.has(entry.path));
+  }
+
+  return {
+    data: entries.length > 0 ? { ...data, '@graph': entries.map(entry => entry.node) } : undefined,
+    issues,
+  };
+}
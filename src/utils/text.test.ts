@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { formatText } from './text';
+
+describe('formatText', () => {
+  it('fills in every placeholder', () => {
+    expect(formatText('Showing {shown} of {total} projects', { shown: 3, total: 10 }))
+      .toBe('Showing 3 of 10 projects');
+    expect(formatText('{count} + {count}', { count: 1 })).toBe('1 + 1');
+  });
+
+  it('keeps placeholders without a value', () => {
+    expect(formatText('Page {page} of {total}', { page: 2 })).toBe('Page 2 of {total}');
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Text Utilities
+ *
+ * Helpers for interface text from the content (e.g. ProjectsLabels),
+ * which marks the values filled in when shown with words in braces:
+ * "Showing {shown} of {total} projects".
+ */
+
+/**
+ * Replace {name} placeholders with values; unknown placeholders are kept
+ */
+export function formatText(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
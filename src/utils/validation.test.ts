@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FormField } from '../types/content';
+import { esContent } from '../content/translations/es';
+import {
+  getFieldRules,
+  isAcceptedFile,
+  validateField,
+  validateFiles,
+  validateInquiry,
+} from './validation';
+
+function field(overrides: Partial<FormField>): FormField {
+  return {
+    id: `field-${overrides.name ?? 'name'}`,
+    name: 'name',
+    label: 'Name',
+    type: 'text',
+    placeholder: '',
+    required: false,
+    ...overrides,
+  };
+}
+
+const MB = 1024 * 1024;
+
+describe('getFieldRules', () => {
+  it('adds the rules implied by required, the field type and select options', () => {
+    const select = field({ type: 'select', required: true, options: ['Small', 'Large'] });
+
+    expect(getFieldRules(select)).toEqual([
+      { name: 'required' },
+      { name: 'oneOf', param: ['Small', 'Large'] },
+      { name: 'maxLength', param: 200 },
+    ]);
+    expect(getFieldRules(field({ type: 'email' })).map(rule => rule.name)).toEqual(['email', 'maxLength']);
+  });
+
+  it('uses default limits for file fields', () => {
+    expect(getFieldRules(field({ type: 'file' }))).toEqual([
+      { name: 'maxFiles', param: 1 },
+      { name: 'maxFileSize', param: 10 * MB },
+    ]);
+  });
+});
+
+describe('validateField', () => {
+  it('requires a non-blank value for required fields only', () => {
+    expect(validateField(field({ required: true }), '   ')).toBe('Name is required');
+    expect(validateField(field({ required: false }), '')).toBeNull();
+    expect(validateField(field({ type: 'email' }), undefined)).toBeNull();
+  });
+
+  it('reports the first failing rule with its parameter', () => {
+    const bio = field({ name: 'bio', label: 'Bio', validation: { minLength: 5, maxLength: 10 } });
+
+    expect(validateField(bio, 'abc')).toBe('Bio must be at least 5 characters');
+    expect(validateField(bio, 'a'.repeat(11))).toBe('Bio must be less than 10 characters');
+    expect(validateField(bio, '  hello  ')).toBeNull();
+  });
+
+  it('checks emails, phone numbers, patterns and options', () => {
+    expect(validateField(field({ type: 'email' }), 'ada@')).toBe('Please enter a valid email address');
+    expect(validateField(field({ type: 'phone' }), '12ab')).toBe('Please enter a valid phone number');
+    expect(validateField(field({ validation: { pattern: '^[A-Z]{3}$' } }), 'abc'))
+      .toBe('Name is not in the expected format');
+    expect(validateField(field({ type: 'select', options: ['Small'] }), 'Huge'))
+      .toBe('Please choose a valid option for Name');
+    expect(validateField(field({ type: 'select', options: ['Small'] }), 'Small')).toBeNull();
+  });
+
+  it('falls back to the type limit without a maxLength rule', () => {
+    expect(validateField(field({ type: 'phone' }), '1'.repeat(21))).toBe('Please enter a valid phone number');
+    expect(validateField(field({}), 'a'.repeat(201))).toBe('Name must be less than 200 characters');
+  });
+
+  it('ignores invalid patterns', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validateField(field({ validation: { pattern: '(' } }), 'anything')).toBeNull();
+    expect(warn).toHaveBeenCalledWith('Ignoring invalid validation pattern: (');
+    warn.mockRestore();
+  });
+
+  it('uses custom messages with {label} and {value} placeholders', () => {
+    const code = field({
+      name: 'code',
+      label: 'Code',
+      required: true,
+      validation: {
+        minLength: 4,
+        messages: { required: 'Enter a {label}', minLength: '{label}: {value}+ characters' },
+      },
+    });
+
+    expect(validateField(code, '')).toBe('Enter a Code');
+    expect(validateField(code, 'ab')).toBe('Code: 4+ characters');
+    expect(validateField(field({ type: 'email', validation: { messages: { maxLength: 'Too long' } } }), 'x'))
+      .toBe('Please enter a valid email address');
+  });
+
+  it("uses the locale's messages for rules without a field message", () => {
+    const messages = esContent.contact?.validationMessages;
+    const email = field({ type: 'email', label: 'Correo', required: true });
+
+    expect(validateField(email, '', messages)).toBe('Correo es obligatorio');
+    expect(validateField(email, 'ada@', messages)).toBe('Introduce un correo electrónico válido');
+    const custom = field({ required: true, validation: { messages: { required: 'Falta {label}' } } });
+
+    expect(validateField(custom, '', messages)).toBe('Falta Name');
+  });
+});
+
+describe('validateFiles', () => {
+  const pdf = { name: 'brief.pdf', type: 'application/pdf', size: MB };
+  const png = { name: 'logo.PNG', type: 'image/png', size: 2 * MB };
+
+  it('requires files for required file fields', () => {
+    expect(validateFiles(field({ type: 'file', label: 'Brief', required: true }), [])).toBe('Brief is required');
+    expect(validateFiles(field({ type: 'file' }))).toBeNull();
+  });
+
+  it('limits the number of files', () => {
+    const attachments = field({ type: 'file', label: 'Attachments', validation: { maxFiles: 1 } });
+
+    expect(validateFiles(attachments, [pdf])).toBeNull();
+    expect(validateFiles(attachments, [pdf, png])).toBe('Attachments accepts at most 1 files');
+  });
+
+  it('limits the size of each file', () => {
+    const attachments = field({
+      type: 'file',
+      label: 'Attachments',
+      validation: { maxFiles: 2, maxFileSize: 1.5 * MB },
+    });
+
+    expect(validateFiles(attachments, [pdf])).toBeNull();
+    expect(validateFiles(attachments, [pdf, png])).toBe('Each file in Attachments must be smaller than 1.5 MB');
+  });
+
+  it('accepts only the listed types and extensions', () => {
+    const attachments = field({
+      type: 'file',
+      label: 'Attachments',
+      validation: { maxFiles: 3, accept: ['application/pdf', '.png'] },
+    });
+    const docx = { name: 'notes.docx', type: 'application/msword', size: 100 };
+
+    expect(validateFiles(attachments, [pdf, png])).toBeNull();
+    expect(validateFiles(attachments, [pdf, docx]))
+      .toBe('Attachments accepts only these file types: application/pdf, .png');
+  });
+
+  it('uses custom messages for file rules', () => {
+    const attachments = field({
+      type: 'file',
+      validation: { maxFileSize: MB / 2, messages: { maxFileSize: 'Max {value} per file' } },
+    });
+
+    expect(validateFiles(attachments, [pdf])).toBe('Max 512 KB per file');
+  });
+});
+
+describe('isAcceptedFile', () => {
+  it('matches MIME types, wildcards and extensions case-insensitively', () => {
+    const photo = { name: 'Photo.JPG', type: 'image/jpeg', size: 1 };
+
+    expect(isAcceptedFile(photo, ['image/*'])).toBe(true);
+    expect(isAcceptedFile(photo, ['.jpg'])).toBe(true);
+    expect(isAcceptedFile(photo, ['IMAGE/JPEG'])).toBe(true);
+    expect(isAcceptedFile(photo, ['application/pdf', '.png'])).toBe(false);
+  });
+});
+
+describe('validateInquiry', () => {
+  const fields = [
+    field({ name: 'name', label: 'Name', required: true }),
+    field({ name: 'email', label: 'Email', type: 'email', required: true }),
+    field({ name: 'company', label: 'Company' }),
+    field({ name: 'brief', label: 'Brief', type: 'file', validation: { accept: ['.pdf'] } }),
+  ];
+
+  it('reports errors per field name, only for fields that failed', () => {
+    const result = validateInquiry(
+      fields,
+      { name: '', email: 'not-an-email', company: '' },
+      { brief: [{ name: 'brief.exe', type: 'application/octet-stream', size: 10 } as File] }
+    );
+
+    expect(result).toEqual({
+      isValid: false,
+      errors: {
+        name: 'Name is required',
+        email: 'Please enter a valid email address',
+        brief: 'Brief accepts only these file types: .pdf',
+      },
+    });
+  });
+
+  it('passes the messages on to every field', () => {
+    const result = validateInquiry(fields, { email: 'x' }, {}, { required: '{label}?', email: 'Bad email' });
+
+    expect(result.errors).toEqual({ name: 'Name?', email: 'Bad email' });
+  });
+
+  it('is valid when every field passes', () => {
+    expect(validateInquiry(fields, { name: 'Ada', email: 'ada@example.com' })).toEqual({
+      isValid: true,
+      errors: {},
+    });
+  });
+});
@@ -4,6 +4,14 @@
  * Provides functions to validate user input.
  */
 
+import type {
+  FormField,
+  InquiryFields,
+  InquiryFiles,
+  ValidationMessages,
+  ValidationRuleName,
+} from '../types/content';
+
 /**
  * Validate email format
  */
@@ -36,67 +44,247 @@ export function hasMaxLength(value: string, maxLength: number): boolean {
   return value.trim().length <= maxLength;
 }
 
+// ============================================
+// FORM FIELD RULES
+// ============================================
+
+/**
+ * Errors keyed by FormField.name (only fields that failed)
+ */
+export type FieldErrors = Record<string, string>;
+
 /**
  * Validation result type
  */
 export interface ValidationResult {
   isValid: boolean;
-  errors: string[];
+  errors: FieldErrors;
 }
 
 /**
- * Inquiry form validation constraints
+ * Inquiry form values keyed by FormField.name
+ */
+export type InquiryFormData = InquiryFields;
+
+/**
+ * Maximum length per field type, for fields without a maxLength rule
  */
-export const INQUIRY_CONSTRAINTS = {
-  name: { minLength: 2, maxLength: 100 },
-  email: { maxLength: 254 },
-  subject: { minLength: 3, maxLength: 200 },
-  message: { minLength: 10, maxLength: 5000 },
-} as const;
+export const FIELD_TYPE_MAX_LENGTH: Record<Exclude<FormField['type'], 'file'>, number> = {
+  text: 200,
+  email: 254,
+  phone: 20,
+  select: 200,
+  textarea: 5000,
+};
 
 /**
- * Validate inquiry form data
+ * Limits for file fields without maxFiles / maxFileSize rules
  */
-export interface InquiryFormData {
-  name: string;
-  email: string;
-  subject: string;
-  message: string;
+export const DEFAULT_MAX_FILES = 1;
+export const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+
+type FileRuleName = 'maxFiles' | 'maxFileSize' | 'accept';
+type TextRuleName = Exclude<ValidationRuleName, FileRuleName>;
+
+/**
+ * The parts of a File the rules look at
+ */
+type FileInfo = Pick<File, 'name' | 'type' | 'size'>;
+
+/**
+ * A rule resolved for a specific field, with its parameter
+ */
+interface FieldRule {
+  name: ValidationRuleName;
+  param?: number | string | string[];
 }
 
-export function validateInquiry(data: InquiryFormData): ValidationResult {
-  const errors: string[] = [];
+type RuleCheck = (value: string, param: FieldRule['param']) => boolean;
+type FileRuleCheck = (files: FileInfo[], param: FieldRule['param']) => boolean;
 
-  // Name validation
-  if (!data.name || !hasMinLength(data.name, INQUIRY_CONSTRAINTS.name.minLength)) {
-    errors.push(`Name must be at least ${INQUIRY_CONSTRAINTS.name.minLength} characters`);
-  } else if (!hasMaxLength(data.name, INQUIRY_CONSTRAINTS.name.maxLength)) {
-    errors.push(`Name must be less than ${INQUIRY_CONSTRAINTS.name.maxLength} characters`);
+function compilePattern(source: string): RegExp | null {
+  try {
+    return new RegExp(source);
+  } catch {
+    console.warn(`Ignoring invalid validation pattern: ${source}`);
+    return null;
   }
+}
 
-  // Email validation
-  if (!data.email || !isValidEmail(data.email)) {
-    errors.push('Please enter a valid email address');
-  } else if (!hasMaxLength(data.email, INQUIRY_CONSTRAINTS.email.maxLength)) {
-    errors.push('Email address is too long');
+/**
+ * Whether a file matches one of the accepted MIME types or extensions
+ */
+export function isAcceptedFile(file: FileInfo, accept: string[]): boolean {
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+
+  return accept.some(entry => {
+    const pattern = entry.trim().toLowerCase();
+    if (pattern.startsWith('.')) return name.endsWith(pattern);
+    if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+}
+
+/**
+ * Human-readable file size, e.g. "2.5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
+
+// Each check receives the trimmed, non-empty value
+const RULE_CHECKS: Record<TextRuleName, RuleCheck> = {
+  required: value => value.length > 0,
+  minLength: (value, min) => hasMinLength(value, Number(min)),
+  maxLength: (value, max) => hasMaxLength(value, Number(max)),
+  pattern: (value, source) => compilePattern(String(source))?.test(value) ?? true,
+  email: value => isValidEmail(value),
+  phone: value => isValidPhone(value),
+  oneOf: (value, allowed) => !Array.isArray(allowed) || allowed.includes(value),
+};
+
+// Each check receives a non-empty list of files
+const FILE_RULE_CHECKS: Record<FileRuleName, FileRuleCheck> = {
+  maxFiles: (files, max) => files.length <= Number(max),
+  maxFileSize: (files, max) => files.every(file => file.size <= Number(max)),
+  accept: (files, accept) => !Array.isArray(accept) || files.every(file => isAcceptedFile(file, accept)),
+};
+
+// Used for rules without a message in the content (ContactContent.validationMessages)
+const DEFAULT_MESSAGES: Record<ValidationRuleName, string> = {
+  required: '{label} is required',
+  minLength: '{label} must be at least {value} characters',
+  maxLength: '{label} must be less than {value} characters',
+  pattern: '{label} is not in the expected format',
+  email: 'Please enter a valid email address',
+  phone: 'Please enter a valid phone number',
+  oneOf: 'Please choose a valid option for {label}',
+  maxFiles: '{label} accepts at most {value} files',
+  maxFileSize: 'Each file in {label} must be smaller than {value}',
+  accept: '{label} accepts only these file types: {value}',
+};
+
+function isFileRule(name: ValidationRuleName): name is FileRuleName {
+  return name in FILE_RULE_CHECKS;
+}
+
+/**
+ * Rules for a field, in the order they are checked: authored rules plus
+ * the ones implied by `required`, the field type and select options
+ */
+export function getFieldRules(field: FormField): FieldRule[] {
+  const validation = field.validation ?? {};
+  const rules: FieldRule[] = [];
+
+  if (field.required) {
+    rules.push({ name: 'required' });
+  }
+
+  if (field.type === 'file') {
+    rules.push({ name: 'maxFiles', param: validation.maxFiles ?? DEFAULT_MAX_FILES });
+    if (validation.accept && validation.accept.length > 0) {
+      rules.push({ name: 'accept', param: validation.accept });
+    }
+    rules.push({ name: 'maxFileSize', param: validation.maxFileSize ?? DEFAULT_MAX_FILE_SIZE });
+    return rules;
   }
 
-  // Subject validation
-  if (!data.subject || !hasMinLength(data.subject, INQUIRY_CONSTRAINTS.subject.minLength)) {
-    errors.push(`Subject must be at least ${INQUIRY_CONSTRAINTS.subject.minLength} characters`);
-  } else if (!hasMaxLength(data.subject, INQUIRY_CONSTRAINTS.subject.maxLength)) {
-    errors.push(`Subject must be less than ${INQUIRY_CONSTRAINTS.subject.maxLength} characters`);
+  if (validation.email || field.type === 'email') {
+    rules.push({ name: 'email' });
+  }
+  if (validation.phone || field.type === 'phone') {
+    rules.push({ name: 'phone' });
   }
 
-  // Message validation
-  if (!data.message || !hasMinLength(data.message, INQUIRY_CONSTRAINTS.message.minLength)) {
-    errors.push(`Message must be at least ${INQUIRY_CONSTRAINTS.message.minLength} characters`);
-  } else if (!hasMaxLength(data.message, INQUIRY_CONSTRAINTS.message.maxLength)) {
-    errors.push(`Message must be less than ${INQUIRY_CONSTRAINTS.message.maxLength} characters`);
+  const allowed = validation.oneOf ?? (field.type === 'select' ? field.options : undefined);
+  if (allowed && allowed.length > 0) {
+    rules.push({ name: 'oneOf', param: allowed });
   }
+  if (validation.pattern) {
+    rules.push({ name: 'pattern', param: validation.pattern });
+  }
+  if (validation.minLength !== undefined) {
+    rules.push({ name: 'minLength', param: validation.minLength });
+  }
+  rules.push({ name: 'maxLength', param: validation.maxLength ?? FIELD_TYPE_MAX_LENGTH[field.type] });
+
+  return rules;
+}
+
+function formatMessage(field: FormField, rule: FieldRule, messages: ValidationMessages): string {
+  const template = field.validation?.messages?.[rule.name] ?? messages[rule.name] ?? DEFAULT_MESSAGES[rule.name];
+
+  let value = Array.isArray(rule.param) ? rule.param.join(', ') : String(rule.param ?? '');
+  if (rule.name === 'maxFileSize') value = formatFileSize(Number(rule.param));
+
+  return template.replace(/\{label\}/g, field.label).replace(/\{value\}/g, value);
+}
+
+/**
+ * Validate one field value; returns the message of the first failing rule.
+ * `messages` (e.g. in the content's locale) are used for rules the field
+ * has no message of its own for.
+ */
+export function validateField(
+  field: FormField,
+  rawValue: string | undefined,
+  messages: ValidationMessages = {}
+): string | null {
+  const value = (rawValue ?? '').trim();
+  const rules = getFieldRules(field);
+
+  // Empty optional fields are valid; empty required fields fail `required`
+  if (!value) {
+    return field.required ? formatMessage(field, rules[0], messages) : null;
+  }
+
+  const failed = rules.find(rule => !isFileRule(rule.name) && !RULE_CHECKS[rule.name](value, rule.param));
+  return failed ? formatMessage(field, failed, messages) : null;
+}
+
+/**
+ * Validate the files chosen for a file field; returns the message of the
+ * first failing rule
+ */
+export function validateFiles(
+  field: FormField,
+  files: FileInfo[] = [],
+  messages: ValidationMessages = {}
+): string | null {
+  const rules = getFieldRules(field);
+
+  if (files.length === 0) {
+    return field.required ? formatMessage(field, rules[0], messages) : null;
+  }
+
+  const failed = rules.find(rule => isFileRule(rule.name) && !FILE_RULE_CHECKS[rule.name](files, rule.param));
+  return failed ? formatMessage(field, failed, messages) : null;
+}
+
+/**
+ * Validate inquiry form data against the form's field definitions
+ */
+export function validateInquiry(
+  fields: FormField[],
+  data: InquiryFormData,
+  files: InquiryFiles = {},
+  messages: ValidationMessages = {}
+): ValidationResult {
+  const errors: FieldErrors = {};
+
+  fields.forEach(field => {
+    const error = field.type === 'file'
+      ? validateFiles(field, files[field.name], messages)
+      : validateField(field, data[field.name], messages);
+    if (error) errors[field.name] = error;
+  });
 
   return {
-    isValid: errors.length === 0,
+    isValid: Object.keys(errors).length === 0,
     errors,
   };
 }
+
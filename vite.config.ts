@@ -1,7 +1,26 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mockCmsPlugin } from './mock/mockCmsPlugin'
+import { prerenderPlugin } from './prerender/prerenderPlugin'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = { ...loadEnv(mode, process.cwd(), ''), ...process.env }
+
+  return {
+    plugins: [
+      react(),
+      // Local mock CMS, see mock/mockCmsPlugin.ts
+      env.VITE_CMS_MOCK === 'true' && mockCmsPlugin(env),
+      // Static HTML for every page, see prerender/prerenderPlugin.ts
+      env.PRERENDER !== 'false' && prerenderPlugin({
+        mockCmsEnv: env.VITE_CMS_MOCK === 'true' ? env : undefined,
+      }),
+    ],
+    test: {
+      // Stylesheets imported with ?raw keep their text (see src/content/locales.test.ts)
+      css: { include: [/\.css\?raw$/] },
+    },
+  }
 })